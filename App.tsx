@@ -1,9 +1,9 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { 
   Search, Plus, Upload, Filter, Grid, List as ListIcon, 
-  Settings, LogOut, Loader2, Sparkles, File as FileIcon,
+  Settings, LogOut, Loader2, Sparkles,
   Video, Music, Lock, Mail, ArrowRight, User as UserIcon,
-  CheckCircle, RefreshCw, KeyRound, AlertTriangle
+  CheckCircle, RefreshCw, KeyRound, AlertTriangle, FolderPlus, FolderUp, MessageSquare, FileSpreadsheet, Library, Layers, X, Copy, Trash2, Download, FileArchive
 } from 'lucide-react';
 import { 
   onAuthStateChanged, 
@@ -19,12 +19,69 @@ import {
 } from 'firebase/auth';
 import { doc, getDoc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
 import { auth, db } from './services/firebase';
-import { DriveFile, FilterState, AIAnalysis, FileType, UserProfile } from './types';
-import { analyzeFileContent } from './services/gemini';
-import { Modal, Button, Input } from './components/UI';
+import {
+  DriveFile, DriveFolder, FilterState, AIAnalysis, FileType, UserProfile, SortOption, DocumentKind, ExtractedData, SavedSearch, AutoAlbum, FileVersion
+} from './types';
+import { createAiClient } from './services/ai';
+import { needsEmbedding, embedFiles, rankBySimilarity, blendScores } from './services/embeddings';
+import { createAnalysisQueue, canReanalyze, upgradeLegacyAnalysis, isAnalysisActive, AnalysisQueue, AnalysisStage } from './services/analysisQueue';
+import { AnalysisProfiles, loadAnalysisProfiles, saveAnalysisProfiles, getProfile } from './services/analysisProfiles';
+import { isExtractable } from './services/extraction';
+import { isTranscribable } from './services/transcripts';
+import { decodeTextContent, isOcrCandidate } from './services/fileContent';
+import { ChatMessage, CHAT_INSTRUCTIONS, findRelevantFiles, buildChatTurns, toChatSource } from './services/driveChat';
+import { createStorageBackend, migrateLegacyStorage } from './services/storage';
+import { Modal, Button, Input, Select } from './components/UI';
 import { FileCard, FileViewer } from './components/FileComponents';
+import { FolderCard, Breadcrumbs } from './components/FolderComponents';
+import { UploadTray } from './components/UploadTray';
+import { ChatPanel } from './components/ChatPanel';
+import { AnalysisProfilesModal } from './components/AnalysisProfilesModal';
+import { ExtractionExportModal } from './components/ExtractionExportModal';
+import { FileTable, ColumnWidths, DEFAULT_COLUMN_WIDTHS } from './components/FileTable';
+import { DraggedItem, getFolderPath, getDescendantFolderIds, isInFolder, canMoveFolder, isInternalDrag, resolveFolderPath } from './services/folders';
+import { createUploadQueue, collectDroppedFiles, collectInputFiles, PendingFile, QueuedUpload } from './services/uploadQueue';
+import { createLimiter } from './services/concurrency';
+import { loadPreference, savePreference } from './services/preferences';
+import { parseQuery, matchesFolderName, splitFreeText, requiredTags, toggleTagFilter } from './services/query';
+import {
+  TagColor, TagColors, TagState, addTag, countTags, deleteTag, fileTags, getTagState, loadTagColors, normalizeTag, removeTag, renameTag, saveTagColors
+} from './services/tags';
+import { TagEditor, TagList } from './components/Tags';
+import {
+  Collections, loadCollections, saveCollections, isSavedSearchActive, staleAlbums, countAlbumFiles, removeAlbum
+} from './services/collections';
+import { CollectionList, AlbumModal } from './components/Collections';
+import { hashContent, perceptualHash, findDuplicateGroups, countDuplicates } from './services/duplicates';
+import { DuplicatesModal } from './components/DuplicatesModal';
+import { loadRetentionDays, saveRetentionDays, expiredFiles, restoreFile, isTrashed, RETENTION_OPTIONS } from './services/trash';
+import { TrashModal } from './components/TrashModal';
+import { storeNewVersion, applyNewVersion, versionFileName, currentVersionDate } from './services/versions';
+import { downloadBlob } from './services/fileUtils';
+import { toggleSelected, selectRange, toggleAll, isAllSelected } from './services/selection';
+import { ArchiveModal, ArchiveRequest } from './components/ArchiveModal';
+import { exportBackup, importBackup, mergeTagColors, mergeCollections, ConflictMode, OpenedBackup } from './services/backup';
+import { BackupModal } from './components/BackupModal';
+import { BulkActionBar } from './components/BulkActionBar';
+import { createSearchClient, toIndexDocument, SearchClient } from './services/searchClient';
+import { SearchHit } from './services/searchIndex';
+import {
+  SORT_OPTIONS, DATE_RANGE_OPTIONS, DEFAULT_SORT, applyFilter, sortFiles, groupFiles, readViewFromUrl, writeViewToUrl
+} from './services/fileFilters';
+import {
+  UploadSession, uploadChunks, loadUploadSessions, saveUploadSession, removeUploadSession,
+  findUploadSession, createUploadSession, matchesUploadSession
+} from './services/chunkedUpload';
 
 // --- Utility Functions for App ---
+const UPLOAD_CONCURRENCY = 3;
+const ANALYSIS_CONCURRENCY = 2;
+const ANALYSIS_REQUESTS_PER_MINUTE = 10;
+const ANALYSIS_RECOVERY_INTERVAL = 60_000; // how often to look for analyses abandoned by other tabs
+const QUERY_EMBED_DELAY = 300; // ms of typing pause before a semantic query is embedded
+const HASH_CONCURRENCY = 2; // files hashed at once, for uploads and older files in the duplicates review
+const TRASH_PURGE_INTERVAL = 60 * 60_000; // how often to look for trashed files past their retention
+
 const getFileType = (mime: string, name: string): FileType => {
   if (mime.startsWith('image/')) return 'image';
   if (mime.startsWith('video/')) return 'video';
@@ -34,27 +91,6 @@ const getFileType = (mime: string, name: string): FileType => {
   return 'other';
 };
 
-const groupFilesByDate = (files: DriveFile[]) => {
-  const groups: { [key: string]: DriveFile[] } = {};
-  
-  files.forEach(file => {
-    const date = new Date(file.uploadDate);
-    const today = new Date();
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    
-    let key = new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', year: 'numeric' }).format(date);
-    
-    if (date.toDateString() === today.toDateString()) key = 'Today';
-    else if (date.toDateString() === yesterday.toDateString()) key = 'Yesterday';
-    
-    if (!groups[key]) groups[key] = [];
-    groups[key].push(file);
-  });
-
-  return groups;
-};
-
 // --- Firestore Service ---
 const syncUserToFirestore = async (user: User) => {
   try {
@@ -473,9 +509,10 @@ interface ProfileModalProps {
   userProfile: UserProfile | null;
   onUpdate: (name: string, photoName: string) => Promise<void>;
   onDelete: () => Promise<void>;
+  onOpenBackup: () => void;
 }
 
-const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose, userProfile, onUpdate, onDelete }) => {
+const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose, userProfile, onUpdate, onDelete, onOpenBackup }) => {
   const [displayName, setDisplayName] = useState(userProfile?.displayName || '');
   const [photoName, setPhotoName] = useState(userProfile?.photoName || '');
   const [isSaving, setIsSaving] = useState(false);
@@ -537,6 +574,16 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ isOpen, onClose, userProfil
           </div>
         </div>
 
+        <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-gray-200">
+          <div>
+            <p className="text-sm font-medium text-gray-800">Backup & Restore</p>
+            <p className="text-xs text-gray-500">Export your whole drive to one file, or import a backup.</p>
+          </div>
+          <Button variant="secondary" onClick={onOpenBackup} className="text-sm px-3">
+            <FileArchive size={16} /> Open
+          </Button>
+        </div>
+
         <div className="pt-4 flex items-center justify-between border-t border-gray-100">
            <Button variant="danger" onClick={handleDelete} className="text-sm px-3">
              Delete Account
@@ -561,38 +608,264 @@ interface DriveDashboardProps {
 }
 
 const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
+  const storage = useMemo(() => createStorageBackend(user.uid), [user.uid]);
+  const ai = useMemo(() => createAiClient(), []);
+
   // State
-  const [files, setFiles] = useState<DriveFile[]>(() => {
-    // User-specific storage key
-    const saved = localStorage.getItem(`gemini-drive-files-${user.uid}`);
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [viewFile, setViewFile] = useState<DriveFile | null>(null);
-  const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [files, setFiles] = useState<DriveFile[]>([]);
+  const [folders, setFolders] = useState<DriveFolder[]>([]);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [isLoadingFiles, setIsLoadingFiles] = useState(true);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const previewUrlsRef = useRef(previewUrls);
+  previewUrlsRef.current = previewUrls;
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  // Looked up by id so the viewer follows analysis results and edits
+  const [viewFileId, setViewFileId] = useState<string | null>(null);
+  const viewFile = viewFileId ? files.find(f => f.id === viewFileId) : undefined;
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingFileId, setEditingFileId] = useState<string | null>(null);
-  const [filter, setFilter] = useState<FilterState>({ search: '', type: 'all', dateRange: 'all' });
+  const [filter, setFilter] = useState<FilterState>(() => readViewFromUrl().filter);
+  const [sort, setSort] = useState<SortOption>(() => readViewFromUrl().sort);
+  const [viewMode, setViewMode] = useState<'grid' | 'list'>(() => loadPreference(user.uid, 'viewMode', 'grid'));
+  const [isSidebarOpen, setIsSidebarOpen] = useState(() => loadPreference(user.uid, 'showSidebar', false));
+  const [tagColors, setTagColors] = useState<TagColors>(() => loadTagColors(user.uid));
+  const [columnWidths, setColumnWidths] = useState<ColumnWidths>(
+    () => ({ ...DEFAULT_COLUMN_WIDTHS, ...loadPreference(user.uid, 'columnWidths', {}) })
+  );
   const [isDragging, setIsDragging] = useState(false);
 
   // Profile State
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
 
   // Upload State
-  const [uploadFile, setUploadFile] = useState<File | null>(null);
-  const [uploadPreview, setUploadPreview] = useState<string | null>(null);
-  const [uploadName, setUploadName] = useState('');
-  const [uploadNotes, setUploadNotes] = useState('');
-  const [isUploading, setIsUploading] = useState(false);
-  
+  const [uploads, setUploads] = useState<QueuedUpload[]>([]);
+  const [interruptedUploads, setInterruptedUploads] = useState<UploadSession[]>(() => loadUploadSessions(user.uid));
+  const resumeSessionRef = useRef<UploadSession | null>(null);
+  const analysisLimit = useMemo(() => createLimiter(ANALYSIS_CONCURRENCY), []);
+
+  // Analysis Profile State (a ref too, so queued jobs always see the latest edits)
+  const [analysisProfiles, setAnalysisProfiles] = useState<AnalysisProfiles>(() => loadAnalysisProfiles(user.uid));
+  const analysisProfilesRef = useRef(analysisProfiles);
+  analysisProfilesRef.current = analysisProfiles;
+  const [isAnalysisProfilesOpen, setIsAnalysisProfilesOpen] = useState(false);
+  const [isExtractionExportOpen, setIsExtractionExportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+
+  // Trash State: deleted files are kept apart from `files` until restored or purged
+  const [trash, setTrash] = useState<DriveFile[]>([]);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [retentionDays, setRetentionDays] = useState(() => loadRetentionDays(user.uid));
+
+  // Selection State: the anchor is the last plainly clicked file, where shift-click ranges start
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  // ZIP Download State
+  const [archiveRequest, setArchiveRequest] = useState<ArchiveRequest | null>(null);
+  const [includeManifest, setIncludeManifest] = useState(() => loadPreference(user.uid, 'zipManifest', true));
+
+  // Version State: write progress (0-1) of new versions, by file id
+  const [versionProgress, setVersionProgress] = useState<Record<string, number>>({});
+
+  // Collection State (a ref too, so queued jobs match against the current albums)
+  const [collections, setCollections] = useState<Collections>(() => loadCollections(user.uid));
+  const collectionsRef = useRef(collections);
+  collectionsRef.current = collections;
+  const [isAlbumModalOpen, setIsAlbumModalOpen] = useState(false);
+  const [editingAlbum, setEditingAlbum] = useState<AutoAlbum | null>(null);
+
+  // Chat State
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isChatBusy, setIsChatBusy] = useState(false);
+
   // Edit State
   const [editName, setEditName] = useState('');
   const [editNotes, setEditNotes] = useState('');
+  const [editTags, setEditTags] = useState<TagState>({ tags: [], rejectedTags: [] });
+  const editingFile = editingFileId ? files.find(f => f.id === editingFileId) : undefined;
+
+  // Folder Modal State (create when folderModalId is null, rename otherwise)
+  const [isFolderModalOpen, setIsFolderModalOpen] = useState(false);
+  const [folderModalId, setFolderModalId] = useState<string | null>(null);
+  const [folderName, setFolderName] = useState('');
 
-  // Persist files
+  // Load files (migrates legacy localStorage data on first run)
   useEffect(() => {
-    localStorage.setItem(`gemini-drive-files-${user.uid}`, JSON.stringify(files));
-  }, [files, user.uid]);
+    let cancelled = false;
+    setIsLoadingFiles(true);
+    migrateLegacyStorage(user.uid, storage)
+      .then(() => Promise.all([storage.list(), storage.listFolders()]))
+      .then(([loadedFiles, loadedFolders]) => {
+        if (cancelled) return;
+        const upgraded = loadedFiles.map(upgradeLegacyAnalysis);
+        setFiles(upgraded.filter(f => !isTrashed(f)));
+        setTrash(upgraded.filter(isTrashed));
+        setFolders(loadedFolders);
+      })
+      .catch(err => {
+        console.error("Failed to load files", err);
+        alert("Failed to load your files.");
+      })
+      .finally(() => { if (!cancelled) setIsLoadingFiles(false); });
+    return () => { cancelled = true; };
+  }, [user.uid, storage]);
+
+  // Image previews are object URLs over the stored blobs. Each image is requested
+  // once, even if it has no contents; releasing its preview lets it load again.
+  const requestedPreviews = useRef(new Set<string>());
+
+  useEffect(() => {
+    const added = files.filter(f => f.type === 'image' && !requestedPreviews.current.has(f.id));
+    if (added.length === 0) return;
+    added.forEach(f => requestedPreviews.current.add(f.id));
+
+    Promise.all(added.map(async f => {
+      try {
+        return [f.id, await storage.get(f.id)] as const;
+      } catch (err) {
+        console.error(`Failed to load the preview of ${f.name}`, err);
+        return [f.id, null] as const;
+      }
+    })).then(entries => {
+      // Previews released while loading are left out
+      const loaded: Record<string, string> = {};
+      entries.forEach(([id, blob]) => { if (blob && requestedPreviews.current.has(id)) loaded[id] = URL.createObjectURL(blob); });
+      if (Object.keys(loaded).length === 0) return;
+      setPreviewUrls(prev => {
+        Object.keys(loaded).forEach(id => { if (prev[id]) URL.revokeObjectURL(prev[id]); });
+        return { ...prev, ...loaded };
+      });
+    });
+  }, [files, storage]);
+
+  useEffect(() => () => {
+    Object.values<string>(previewUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const loadBlob = useCallback((id: string) => storage.get(id), [storage]);
+
+  // --- Full-text Index ---
+  const [searchClient, setSearchClient] = useState<SearchClient | null>(null);
+  const indexedSignatures = useRef(new Map<string, string>());
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  // Created in an effect (not a memo) so the worker is disposed and recreated together on remount
+  useEffect(() => {
+    const client = createSearchClient();
+    indexedSignatures.current.clear();
+    setSearchClient(client);
+    return () => client.dispose();
+  }, [user.uid]);
+
+  // Incrementally (re)index files whose searchable fields changed
+  useEffect(() => {
+    if (!searchClient) return;
+    const signatures = indexedSignatures.current;
+    const currentIds = new Set(files.map(f => f.id));
+    const removed = Array.from(signatures.keys()).filter(id => !currentIds.has(id));
+    removed.forEach(id => signatures.delete(id));
+    searchClient.remove(removed);
+
+    const changed = files
+      .map(toIndexDocument)
+      .filter(doc => {
+        const signature = JSON.stringify(doc.fields);
+        if (signatures.get(doc.id) === signature) return false;
+        signatures.set(doc.id, signature);
+        return true;
+      });
+    searchClient.upsert(changed);
+    if (changed.length > 0 || removed.length > 0) setIndexVersion(v => v + 1);
+  }, [files, searchClient]);
+
+  // Text files uploaded before contents were stored with the file are decoded once
+  const decodingText = useRef(new Set<string>());
+
+  useEffect(() => {
+    const undecoded = files.filter(f => f.type === 'text' && !f.content && !decodingText.current.has(f.id));
+    if (undecoded.length === 0) return;
+    undecoded.forEach(f => decodingText.current.add(f.id));
+    Promise.all(undecoded.map(async f => {
+      const blob = await storage.get(f.id);
+      if (blob) patchFile(f.id, { content: await decodeTextContent(blob) });
+    }))
+      .catch(err => console.error("Failed to read text file contents", err));
+  }, [files, storage]);
+
+  // Files uploaded before duplicate detection are hashed while the duplicates
+  // review is open, a few at a time; each one has to be downloaded in full
+  const hashingFiles = useRef(new Set<string>());
+  const hashLimit = useMemo(() => createLimiter(HASH_CONCURRENCY), []);
+  const [hashingCount, setHashingCount] = useState(0);
+  const isDuplicatesOpenRef = useRef(isDuplicatesOpen);
+  isDuplicatesOpenRef.current = isDuplicatesOpen;
+  const needsHash = (f: DriveFile) => !f.contentHash || (f.type === 'image' && !f.perceptualHash);
+  const hasUnhashedFiles = files.some(f => needsHash(f) && !hashingFiles.current.has(f.id));
+
+  useEffect(() => {
+    if (!isDuplicatesOpen) return;
+    const unhashed = files.filter(f => needsHash(f) && !hashingFiles.current.has(f.id));
+    if (unhashed.length === 0) return;
+    unhashed.forEach(f => hashingFiles.current.add(f.id));
+    setHashingCount(count => count + unhashed.length);
+    unhashed.forEach(f => hashLimit(async () => {
+      // Closing the review stops the check; the rest are hashed next time it opens
+      if (!isDuplicatesOpenRef.current) {
+        hashingFiles.current.delete(f.id);
+        return;
+      }
+      const blob = await storage.get(f.id);
+      if (!blob) return;
+      const contentHash = f.contentHash ?? await hashContent(blob);
+      const imageHash = f.type === 'image' && !f.perceptualHash ? await perceptualHash(blob) : undefined;
+      if ((contentHash && contentHash !== f.contentHash) || imageHash) {
+        patchFile(f.id, { ...(contentHash ? { contentHash } : {}), ...(imageHash ? { perceptualHash: imageHash } : {}) });
+      }
+    })
+      .catch(err => console.error(`Failed to hash ${f.name}`, err))
+      .finally(() => setHashingCount(count => count - 1)));
+  }, [files, storage, isDuplicatesOpen]);
+
+  // --- Embeddings ---
+  // Analysed files are embedded once their summary arrives, and again whenever
+  // the text they were embedded from (name, tags, notes, file text) changes
+  const embeddingInFlight = useRef(new Set<string>());
+
+  useEffect(() => {
+    const stale = files.filter(f => needsEmbedding(f, ai.embeddingModel) && !embeddingInFlight.current.has(f.id));
+    if (stale.length === 0) return;
+    stale.forEach(f => embeddingInFlight.current.add(f.id));
+    analysisLimit(() => embedFiles(ai, stale))
+      .then(embeddings => embeddings.forEach((embedding, id) => patchFile(id, { embedding })))
+      .catch(err => console.error("Failed to embed files", err))
+      .finally(() => stale.forEach(f => embeddingInFlight.current.delete(f.id)));
+  }, [files, ai]);
+
+  const releasePreviews = (ids: string[]) => {
+    ids.forEach(id => requestedPreviews.current.delete(id));
+    setPreviewUrls(prev => {
+      const next = { ...prev };
+      ids.forEach(id => {
+        if (!next[id]) return;
+        URL.revokeObjectURL(next[id]);
+        delete next[id];
+      });
+      return next;
+    });
+  };
+
+  // Applies a metadata change locally and persists just that file. Trashed
+  // files are patched too (e.g. by a running analysis) so restoring keeps the change.
+  const patchFile = (id: string, updates: Partial<DriveFile>) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, ...updates } : f));
+    setTrash(prev => prev.some(f => f.id === id) ? prev.map(f => f.id === id ? { ...f, ...updates } : f) : prev);
+    storage.updateMetadata(id, updates).catch(err => console.error("Failed to save file changes", err));
+  };
 
   // Fetch Profile
   useEffect(() => {
@@ -604,33 +877,99 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
   }, [user.uid]);
 
   // Derived State
-  const filteredFiles = useMemo(() => {
-    let result = files;
-
-    // Search
-    if (filter.search) {
-      const q = filter.search.toLowerCase();
-      result = result.filter(f => 
-        f.name.toLowerCase().includes(q) || 
-        f.notes.toLowerCase().includes(q) ||
-        f.aiData?.summary.toLowerCase().includes(q) ||
-        f.aiData?.tags.some(t => t.toLowerCase().includes(q))
-      );
-    }
+  const folderPath = useMemo(() => getFolderPath(folders, currentFolderId), [folders, currentFolderId]);
+
+  // Terms that fail to parse are reported inline and left out of the query
+  const parsedSearch = useMemo(() => parseQuery(filter.search), [filter.search]);
+  const freeText = useMemo(() => splitFreeText(parsedSearch.query), [parsedSearch]);
+  const hasFreeText = freeText.words.length > 0 || freeText.phrases.length > 0;
+  const [searchHits, setSearchHits] = useState<Map<string, SearchHit> | null>(null);
+  const searchRequestRef = useRef(0);
 
-    // Type Filter
-    if (filter.type !== 'all') {
-      result = result.filter(f => f.type === filter.type);
+  useEffect(() => {
+    if (!hasFreeText || !searchClient) {
+      setSearchHits(null);
+      return;
     }
+    const requestId = ++searchRequestRef.current;
+    searchClient.search({ words: freeText.words, phrases: freeText.phrases }).then(hits => {
+      if (requestId === searchRequestRef.current) setSearchHits(new Map(hits.map(hit => [hit.id, hit])));
+    }).catch(err => {
+      console.error("Search failed", err);
+      // No hits rather than a search that never finishes; the next query uses the fallback index
+      if (requestId === searchRequestRef.current) setSearchHits(new Map());
+    });
+  }, [freeText, hasFreeText, searchClient, indexVersion]);
 
-    // Date Sort (Implicitly Descending)
-    return result.sort((a, b) => b.uploadDate - a.uploadDate);
-  }, [files, filter]);
+  // Semantic mode embeds the free text and blends similarity into the keyword ranking
+  const semanticQuery = filter.mode === 'semantic' ? [...freeText.words, ...freeText.phrases].join(' ') : '';
+  const [queryEmbedding, setQueryEmbedding] = useState<{ text: string; vector: number[] } | null>(null);
+  const isEmbeddingQuery = !!semanticQuery && queryEmbedding?.text !== semanticQuery;
 
-  const groupedFiles = groupFilesByDate(filteredFiles);
+  useEffect(() => {
+    if (!isEmbeddingQuery) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ai.embed([semanticQuery], 'query')
+        .then(([vector]) => { if (!cancelled) setQueryEmbedding({ text: semanticQuery, vector }); })
+        .catch(err => {
+          console.error("Failed to embed search query", err);
+          // An empty vector matches nothing, leaving the keyword ranking
+          if (!cancelled) setQueryEmbedding({ text: semanticQuery, vector: [] });
+        });
+    }, QUERY_EMBED_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [semanticQuery, isEmbeddingQuery, ai]);
+
+  const searchScores = useMemo(() => {
+    if (!searchHits) return undefined;
+    const keywordScores = new Map(Array.from(searchHits.values()).map((hit: SearchHit) => [hit.id, hit.score]));
+    if (!semanticQuery || !queryEmbedding || isEmbeddingQuery) return keywordScores;
+    const similarities = rankBySimilarity(files, queryEmbedding.vector, ai.embeddingModel, ai.similarityThreshold);
+    return blendScores(keywordScores, similarities);
+  }, [searchHits, semanticQuery, queryEmbedding, isEmbeddingQuery, files, ai]);
+
+  // Searching spans the whole drive; otherwise only the current folder is shown.
+  // Albums only hold files.
+  const visibleFolders = useMemo(() => {
+    if (filter.album) return [];
+    const result = filter.search
+      ? folders.filter(f => matchesFolderName(f.name, parsedSearch.query))
+      : folders.filter(f => f.parentId === currentFolderId);
+    return [...result].sort((a, b) => a.name.localeCompare(b.name));
+  }, [folders, currentFolderId, filter.search, filter.album, parsedSearch]);
+
+  // Free text comes ranked from the index, structured terms are checked directly
+  const filteredFiles = useMemo(() => {
+    const result = applyFilter(files, filter, {
+      folderId: currentFolderId,
+      structured: freeText.structured,
+      hits: hasFreeText ? searchScores ?? new Set<string>() : undefined
+    });
+    return sortFiles(result, sort, searchScores);
+  }, [files, filter, sort, currentFolderId, freeText, hasFreeText, searchScores]);
+
+  const groupedFiles = useMemo(() => groupFiles(filteredFiles, sort), [filteredFiles, sort]);
+  const gridOrder = useMemo(() => groupedFiles.flatMap(group => group.files.map(f => f.id)), [groupedFiles]);
+
+  // Only files on screen stay selected, so bulk actions never reach hidden ones
+  useEffect(() => {
+    const visible = new Set(filteredFiles.map(f => f.id));
+    setSelectedIds(prev => [...prev].every(id => visible.has(id)) ? prev : new Set([...prev].filter(id => visible.has(id))));
+  }, [filteredFiles]);
+
+  // Keep the view bookmarkable
+  useEffect(() => {
+    writeViewToUrl(filter, sort);
+  }, [filter, sort]);
 
   // Handlers
   const handleDragOver = (e: React.DragEvent) => {
+    // Moves between folders are handled by the folder drop targets
+    if (isInternalDrag(e.dataTransfer)) return;
     e.preventDefault();
     setIsDragging(true);
   };
@@ -640,80 +979,461 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      prepareUpload(e.dataTransfer.files[0]);
+    if (isInternalDrag(e.dataTransfer)) return;
+    try {
+      enqueueUploads(await collectDroppedFiles(e.dataTransfer));
+    } catch (err) {
+      console.error("Failed to read dropped files", err);
+      alert("Some dropped items could not be read.");
     }
   };
 
-  const prepareUpload = (file: File) => {
-    setUploadFile(file);
-    setUploadName(file.name);
-    setUploadNotes('');
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setUploadPreview(e.target?.result as string);
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) enqueueUploads(collectInputFiles(e.target.files));
+    e.target.value = '';
+  };
+
+  // Gemini analysis runs in the background, rate limited and retried. The queue
+  // starts once files are loaded so it can resume analyses left unfinished by a
+  // reload, a closed tab or signing out, and keeps sweeping for abandoned ones.
+  const analysisQueueRef = useRef<AnalysisQueue | null>(null);
+
+  useEffect(() => {
+    if (isLoadingFiles) return;
+    const queue = createAnalysisQueue({
+      uid: user.uid,
+      ai,
+      concurrency: ANALYSIS_CONCURRENCY,
+      requestsPerMinute: ANALYSIS_REQUESTS_PER_MINUTE,
+      getProfile: (type) => getProfile(analysisProfilesRef.current, type),
+      getAlbums: () => collectionsRef.current.albums,
+      loadBlob: (id) => storage.get(id),
+      onUpdate: patchFile
+    });
+    analysisQueueRef.current = queue;
+
+    const resume = () => queue.resume(filesRef.current);
+    resume();
+    const timer = setInterval(resume, ANALYSIS_RECOVERY_INTERVAL);
+    return () => {
+      clearInterval(timer);
+      queue.dispose();
+      analysisQueueRef.current = null;
     };
-    reader.readAsDataURL(file);
-    
-    setIsUploadModalOpen(true);
-  };
-
-  const handleConfirmUpload = async () => {
-    if (!uploadFile || !uploadPreview) return;
-    
-    setIsUploading(true);
-    
-    const newFile: DriveFile = {
-      id: crypto.randomUUID(),
-      name: uploadName,
-      type: getFileType(uploadFile.type, uploadName),
-      mimeType: uploadFile.type,
-      size: uploadFile.size,
-      uploadDate: Date.now(),
-      data: uploadPreview,
-      notes: uploadNotes,
-      aiData: {
-        isAnalyzing: true,
-        summary: '',
-        tags: []
+  }, [isLoadingFiles, ai, storage, user.uid]);
+
+  const isReanalyzable = (file: DriveFile) => canReanalyze(file, getProfile(analysisProfiles, file.type), ai.analysisModel);
+  const reanalyzable = useMemo(() => files.filter(isReanalyzable), [files, analysisProfiles, ai]);
+
+  const handleSaveAnalysisProfiles = (profiles: AnalysisProfiles) => {
+    setAnalysisProfiles(profiles);
+    saveAnalysisProfiles(user.uid, profiles);
+    setIsAnalysisProfilesOpen(false);
+  };
+
+  const handleReanalyze = (e: React.MouseEvent, file: DriveFile) => {
+    e.stopPropagation();
+    analysisQueueRef.current?.enqueue(file, { rerun: ['analysis', 'extraction'] });
+  };
+
+  const handleReanalyzeAll = () => {
+    reanalyzable.forEach(file => analysisQueueRef.current?.enqueue(file, { rerun: ['analysis', 'extraction'] }));
+  };
+
+  // Corrections are kept as they are: re-analysing never overwrites an edited extraction
+  const handleSaveExtraction = (file: DriveFile, kind: DocumentKind, data: ExtractedData) => {
+    patchFile(file.id, { extraction: { status: 'done', kind, data, editedAt: Date.now() } });
+  };
+
+  const handleRerunStage = (file: DriveFile, stage: AnalysisStage) => {
+    if (!analysisQueueRef.current) {
+      alert("Analysis hasn't started yet. Please try again in a moment.");
+      return;
+    }
+    analysisQueueRef.current.enqueue(file, { rerun: [stage] });
+  };
+
+  const uploadQueue = useMemo(() => createUploadQueue({
+    concurrency: UPLOAD_CONCURRENCY,
+    onChange: setUploads,
+    upload: async (item, onProgress, signal) => {
+      // Picking up an interrupted upload of the same file reuses its stored chunks
+      const session = findUploadSession(user.uid, item.file) ?? createUploadSession(item.file, item.parentId);
+      saveUploadSession(user.uid, session);
+      setInterruptedUploads(prev => prev.filter(s => s.fileId !== session.fileId));
+
+      try {
+        await uploadChunks(storage, session.fileId, item.file, { onProgress, signal });
+      } catch (err) {
+        if (signal.aborted) {
+          removeUploadSession(user.uid, session.fileId);
+          await storage.delete(session.fileId);
+        }
+        throw err;
       }
-    };
 
-    setFiles(prev => [newFile, ...prev]);
-    setIsUploadModalOpen(false);
-    setIsUploading(false);
+      // Only resumed uploads arrive unhashed
+      const contentHash = item.contentHash ?? await hashLimit(() => hashContent(item.file));
+      const imageHash = getFileType(item.file.type, item.file.name) === 'image' ? await perceptualHash(item.file) : undefined;
+      const newFile: DriveFile = {
+        id: session.fileId,
+        name: item.file.name,
+        type: getFileType(item.file.type, item.file.name),
+        mimeType: item.file.type,
+        size: item.file.size,
+        uploadDate: Date.now(),
+        parentId: session.parentId,
+        notes: '',
+        aiData: {
+          status: 'pending',
+          summary: '',
+          tags: []
+        },
+        ...(contentHash ? { contentHash } : {}),
+        ...(imageHash ? { perceptualHash: imageHash } : {})
+      };
+      if (isExtractable(newFile)) newFile.extraction = { status: 'pending' };
+      if (isTranscribable(newFile)) newFile.transcript = { status: 'pending', segments: [] };
+      if (isOcrCandidate(newFile)) newFile.content = { status: 'pending', text: '' };
+      if (newFile.type === 'text') newFile.content = await decodeTextContent(item.file);
+
+      await storage.putMetadata(newFile);
+      removeUploadSession(user.uid, session.fileId);
+
+      setFiles(prev => [newFile, ...prev]);
+      // Without a queue yet, the file stays pending and is picked up once one starts
+      analysisQueueRef.current?.enqueue(newFile, { blob: item.file });
+    }
+  }), [storage]);
+
+  const handleResumeUpload = (session: UploadSession) => {
+    resumeSessionRef.current = session;
+    document.getElementById('resume-upload')?.click();
+  };
+
+  const handleResumeInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const session = resumeSessionRef.current;
+    e.target.value = '';
+    resumeSessionRef.current = null;
+    if (!file || !session) return;
 
-    // Trigger AI Analysis in background
+    if (!matchesUploadSession(session, file)) {
+      alert(`That file doesn't match the interrupted upload of "${session.name}".`);
+      return;
+    }
+    uploadQueue.enqueue([{ file, parentId: session.parentId }]);
+  };
+
+  const handleDiscardUpload = (session: UploadSession) => {
+    removeUploadSession(user.uid, session.fileId);
+    setInterruptedUploads(prev => prev.filter(s => s.fileId !== session.fileId));
+    storage.delete(session.fileId).catch(err => console.error("Failed to discard upload", err));
+  };
+
+  // Queues files for upload, recreating any dropped directory structure as folders.
+  // Files identical to one already in the drive (or earlier in the batch) are
+  // only uploaded again if the user confirms.
+  const enqueueUploads = async (pending: PendingFile[]) => {
+    if (pending.length === 0) return;
+
+    // Listed in the tray straight away while they're hashed, a few at a time as streams;
+    // the upload reuses the hash instead of reading the file again
+    const ids = uploadQueue.check(pending.map(entry => entry.file));
+    const checked = await Promise.all(pending.map((entry, i) => hashLimit(async () => ({
+      ...entry,
+      id: ids[i],
+      contentHash: uploadQueue.isChecking(ids[i]) ? await hashContent(entry.file) : undefined
+    }))));
+    // Files cancelled during the check are already out of the tray
+    const hashed = checked.filter(entry => uploadQueue.isChecking(entry.id));
+    const seen = new Map<string, string>(filesRef.current.flatMap(f => f.contentHash ? [[f.contentHash, f.name] as const] : []));
+    const duplicates: { name: string; existing: string }[] = [];
+    hashed.forEach(({ file, contentHash }) => {
+      if (!contentHash) return;
+      const existing = seen.get(contentHash);
+      if (existing) duplicates.push({ name: file.name, existing });
+      else seen.set(contentHash, file.name);
+    });
+
+    let toUpload = hashed;
+    if (duplicates.length > 0) {
+      const message = duplicates.length === 1
+        ? `"${duplicates[0].name}" already exists in your drive${duplicates[0].existing !== duplicates[0].name ? ` as "${duplicates[0].existing}"` : ''}.`
+        : `${duplicates.length} of these files already exist in your drive:\n${duplicates.slice(0, 5).map(d => `• ${d.name}`).join('\n')}${duplicates.length > 5 ? '\n…' : ''}`;
+      if (!confirm(`${message}\n\nUpload ${duplicates.length === 1 ? 'it' : 'them'} anyway? Cancel skips the duplicates.`)) {
+        const uploaded = new Set(filesRef.current.flatMap(f => f.contentHash ? [f.contentHash] : []));
+        toUpload = hashed.filter(({ contentHash }) => {
+          if (!contentHash) return true;
+          if (uploaded.has(contentHash)) return false;
+          uploaded.add(contentHash);
+          return true;
+        });
+      }
+    }
+    const kept = new Set(toUpload.map(entry => entry.id));
+    uploadQueue.discard(hashed.filter(entry => !kept.has(entry.id)).map(entry => entry.id));
+    if (toUpload.length === 0) return;
+
+    let knownFolders = folders;
+    const newFolders: DriveFolder[] = [];
+    const entries = toUpload.map(({ id, path, contentHash }) => {
+      const { folderId, created } = resolveFolderPath(knownFolders, currentFolderId, path.split('/').slice(0, -1));
+      knownFolders = [...knownFolders, ...created];
+      newFolders.push(...created);
+      return { id, parentId: folderId, contentHash };
+    });
+
+    if (newFolders.length > 0) {
+      setFolders(prev => [...prev, ...newFolders]);
+      Promise.all(newFolders.map(f => storage.putFolder(f)))
+        .catch(err => console.error("Failed to create upload folders", err));
+    }
+    uploadQueue.start(entries);
+  };
+
+  // Searches rank by relevance unless the user picked a different sort
+  const handleSearchChange = (value: string) => {
+    setFilter(prev => ({ ...prev, search: value }));
+    if (!filter.search && value && sort === DEFAULT_SORT) setSort('relevance');
+    if (filter.search && !value && sort === 'relevance') setSort(DEFAULT_SORT);
+  };
+
+  const handleViewModeChange = (mode: 'grid' | 'list') => {
+    setViewMode(mode);
+    savePreference(user.uid, 'viewMode', mode);
+  };
+
+  const handleColumnWidthsChange = (widths: ColumnWidths) => {
+    setColumnWidths(widths);
+    savePreference(user.uid, 'columnWidths', widths);
+  };
+
+  // --- Trash ---
+  // Deleting only moves files to the trash; they can be restored until purged
+  const moveToTrash = (ids: string[]) => {
+    const deletedAt = Date.now();
+    const targets = new Set(ids);
+    const trashed = filesRef.current.filter(f => targets.has(f.id)).map(f => ({ ...f, deletedAt }));
+    if (trashed.length === 0) return;
+    setFiles(prev => prev.filter(f => !targets.has(f.id)));
+    setTrash(prev => [...trashed, ...prev]);
+    releasePreviews(ids);
+    Promise.all(trashed.map(f => storage.updateMetadata(f.id, { deletedAt })))
+      .catch(err => console.error("Failed to move files to the trash", err));
+  };
+
+  const handleDelete = (e: React.SyntheticEvent, id: string) => {
+    e.stopPropagation();
+    moveToTrash([id]);
+  };
+
+  // The whole record is written back so the deletion mark is really gone
+  const handleRestore = (file: DriveFile) => {
+    const restored = restoreFile(file, folders);
+    setTrash(prev => prev.filter(f => f.id !== file.id));
+    setFiles(prev => [restored, ...prev]);
+    storage.putMetadata(restored).catch(err => {
+      console.error("Failed to restore file", err);
+      alert(`Failed to restore "${file.name}".`);
+    });
+  };
+
+  // --- Versions ---
+  // Makes `blob` the file's current version; the bytes it replaces join the history
+  const replaceVersion = async (file: DriveFile, blob: Blob, mimeType: string, knownHash?: string) => {
+    if (versionProgress[file.id] !== undefined) return;
+    setVersionProgress(prev => ({ ...prev, [file.id]: 0 }));
     try {
-      const aiResult = await analyzeFileContent(newFile);
-      setFiles(prev => prev.map(f => 
-        f.id === newFile.id 
-          ? { ...f, aiData: { ...aiResult, isAnalyzing: false } } 
-          : f
-      ));
+      const type = getFileType(mimeType, file.name);
+      const contentHash = knownHash ?? await hashContent(blob);
+      const imageHash = type === 'image' ? await perceptualHash(blob) : undefined;
+      const versions = await storeNewVersion(storage, file, blob, {
+        onProgress: progress => setVersionProgress(prev => ({ ...prev, [file.id]: progress })),
+        onVersionsChange: changed => setFiles(prev => prev.map(f => f.id === file.id ? { ...f, versions: changed } : f))
+      });
+
+      // Edits made while the bytes were uploading carry over too
+      const latest = filesRef.current.find(f => f.id === file.id) || file;
+      const updated = applyNewVersion(latest, versions, { blob, type, mimeType, contentHash, perceptualHash: imageHash });
+      if (updated.type === 'text') updated.content = await decodeTextContent(blob);
+
+      await storage.putMetadata(updated);
+      setFiles(prev => prev.map(f => f.id === file.id ? updated : f));
+      releasePreviews([file.id]);
+      analysisQueueRef.current?.enqueue(updated, { blob });
+    } catch (err) {
+      console.error("Failed to store new version", err);
+      alert(`Failed to update "${file.name}". If its contents look wrong, restore the previous version from its history.`);
+    } finally {
+      setVersionProgress(prev => {
+        const { [file.id]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const handleUploadVersion = (file: DriveFile, upload: File) => {
+    if (upload.type && upload.type !== file.mimeType && !confirm(`"${upload.name}" is a different kind of file than "${file.name}". Use it as the new version anyway?`)) return;
+    replaceVersion(file, upload, upload.type || file.mimeType);
+  };
+
+  const handleRestoreVersion = async (file: DriveFile, version: FileVersion) => {
+    if (!confirm(`Restore the version of "${file.name}" from ${new Date(version.uploadedAt).toLocaleString()}? The current version stays in the history.`)) return;
+    try {
+      const blob = await storage.getVersion(file.id, version.id);
+      if (!blob) {
+        alert("This version's contents could not be found.");
+        return;
+      }
+      await replaceVersion(file, blob, version.mimeType, version.contentHash);
     } catch (err) {
-      console.error("Analysis failed", err);
-      setFiles(prev => prev.map(f => 
-        f.id === newFile.id 
-          ? { ...f, aiData: { isAnalyzing: false, summary: "Analysis failed", tags: [] } } 
-          : f
-      ));
+      console.error("Failed to restore version", err);
+      alert("Failed to restore this version.");
+    }
+  };
+
+  const handleDownloadVersion = async (file: DriveFile, version: FileVersion) => {
+    try {
+      const blob = await storage.getVersion(file.id, version.id);
+      if (!blob) {
+        alert("This version's contents could not be found.");
+        return;
+      }
+      downloadBlob(blob, versionFileName(file.name, version));
+    } catch (err) {
+      console.error("Failed to download version", err);
+      alert("Failed to download this version.");
+    }
+  };
+
+  // --- Bulk Actions ---
+  const selectedFiles = filteredFiles.filter(f => selectedIds.has(f.id));
+
+  const handleSelect = (id: string, range: boolean, order: string[]) => {
+    setSelectedIds(prev => range ? selectRange(prev, order, selectionAnchorRef.current, id) : toggleSelected(prev, id));
+    if (!range) selectionAnchorRef.current = id;
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !viewFileId) clearSelection();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selectedIds.size, viewFileId]);
+
+  // Deleted files go to the trash, so there's nothing to confirm
+  const handleBulkDelete = () => {
+    moveToTrash(selectedFiles.map(f => f.id));
+    clearSelection();
+  };
+
+  const handleBulkMove = (folderId: string | null) => {
+    selectedFiles.forEach(file => {
+      if (!isInFolder(file, folderId)) patchFile(file.id, { parentId: folderId });
+    });
+    clearSelection();
+  };
+
+  const handleBulkTag = (tag: string, add: boolean) => {
+    const normalized = normalizeTag(tag);
+    selectedFiles.forEach(file => {
+      const state = getTagState(file);
+      if (add ? state.tags.includes(normalized) : !fileTags(file).includes(normalized)) return;
+      patchFile(file.id, add ? addTag(state, normalized) : removeTag(state, normalized, file));
+    });
+  };
+
+  const handleBulkReanalyze = () => {
+    if (!analysisQueueRef.current) {
+      alert("Analysis hasn't started yet. Please try again in a moment.");
+      return;
     }
-    
-    // Reset upload state
-    setUploadFile(null);
-    setUploadPreview(null);
+    selectedFiles
+      .filter(file => !isAnalysisActive(file))
+      .forEach(file => analysisQueueRef.current?.enqueue(file, { rerun: ['analysis', 'extraction'] }));
+  };
+
+  const handleBulkDownload = () => {
+    setArchiveRequest({ name: `drive-files-${new Date().toISOString().slice(0, 10)}`, files: selectedFiles });
   };
 
-  const handleDelete = (e: React.MouseEvent, id: string) => {
+  // --- ZIP Downloads ---
+  const handleIncludeManifestChange = (include: boolean) => {
+    setIncludeManifest(include);
+    savePreference(user.uid, 'zipManifest', include);
+  };
+
+  // The folder itself is the archive's top level, with everything nested below it
+  const handleDownloadFolder = (e: React.MouseEvent, folder: DriveFolder) => {
     e.stopPropagation();
-    if (confirm('Are you sure you want to delete this file?')) {
-      setFiles(prev => prev.filter(f => f.id !== id));
+    const folderIds = getDescendantFolderIds(folders, folder.id);
+    const contained = files.filter(f => f.parentId && folderIds.has(f.parentId));
+    if (contained.length === 0) {
+      alert(`"${folder.name}" has no files to download.`);
+      return;
     }
+    setArchiveRequest({ name: folder.name, files: contained, baseFolderId: folder.parentId });
+  };
+
+  const handleDownloadResults = () => {
+    setArchiveRequest({ name: filter.search.trim() || activeAlbum?.name || 'search-results', files: filteredFiles });
+  };
+
+  const deleteForever = (ids: string[]) => {
+    const targets = new Set(ids);
+    setTrash(prev => prev.filter(f => !targets.has(f.id)));
+    Promise.all(ids.map(id => storage.delete(id))).catch(err => console.error("Failed to delete files", err));
+  };
+
+  const handleDeleteForever = (targets: DriveFile[]) => {
+    const message = targets.length === 1
+      ? `Delete "${targets[0].name}" forever? This cannot be undone.`
+      : `Permanently delete all ${targets.length} files in the trash? This cannot be undone.`;
+    if (confirm(message)) deleteForever(targets.map(f => f.id));
+  };
+
+  const handleRetentionChange = (days: number) => {
+    const expiring = expiredFiles(trash, days).length;
+    const label = RETENTION_OPTIONS.find(option => option.value === days)?.label;
+    if (expiring > 0 && !confirm(`${expiring} ${expiring === 1 ? 'file has' : 'files have'} been in the trash for longer than ${label} and will be deleted forever now. Continue?`)) return;
+    setRetentionDays(days);
+    saveRetentionDays(user.uid, days);
+  };
+
+  // Files past the retention period are purged on load and then periodically
+  const [purgeCheck, setPurgeCheck] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setPurgeCheck(n => n + 1), TRASH_PURGE_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (isLoadingFiles) return;
+    const expired = expiredFiles(trash, retentionDays);
+    if (expired.length === 0) return;
+    deleteForever(expired.map(f => f.id));
+  }, [trash, retentionDays, isLoadingFiles, purgeCheck]);
+
+  // Duplicates are regrouped only when a hash changes, not on every metadata edit
+  const hashSignature = files.map(f => `${f.id}:${f.contentHash || ''}:${f.perceptualHash || ''}`).join('|');
+  const duplicateGroups = useMemo(() => findDuplicateGroups(files), [hashSignature]);
+  const duplicateCount = countDuplicates(duplicateGroups);
+
+  const handleDeleteDuplicates = (ids: string[]) => {
+    if (!confirm(`Move ${ids.length} duplicate ${ids.length === 1 ? 'file' : 'files'} to the trash?`)) return;
+    moveToTrash(ids);
   };
 
   const openEditModal = (e: React.MouseEvent, file: DriveFile) => {
@@ -721,20 +1441,322 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
     setEditingFileId(file.id);
     setEditName(file.name);
     setEditNotes(file.notes);
+    setEditTags(getTagState(file));
     setIsEditModalOpen(true);
   };
 
   const handleSaveEdit = () => {
     if (!editingFileId) return;
-    setFiles(prev => prev.map(f => 
-      f.id === editingFileId 
-        ? { ...f, name: editName, notes: editNotes }
-        : f
-    ));
+    patchFile(editingFileId, { name: editName, notes: editNotes, ...editTags });
     setIsEditModalOpen(false);
     setEditingFileId(null);
   };
 
+  // Tag Handlers
+  const tagCounts = useMemo(() => countTags(files), [files]);
+  const activeTags = useMemo(() => requiredTags(parsedSearch.query), [parsedSearch]);
+
+  const handleTagClick = (tag: string) => {
+    setViewFileId(null);
+    handleSearchChange(toggleTagFilter(filter.search, tag));
+  };
+
+  const handleAcceptTag = (file: DriveFile, tag: string) => patchFile(file.id, addTag(getTagState(file), tag));
+
+  const handleRejectTag = (file: DriveFile, tag: string) => patchFile(file.id, removeTag(getTagState(file), tag, file));
+
+  const updateTagColors = (update: (colors: TagColors) => TagColors) => {
+    setTagColors(prev => {
+      const next = update(prev);
+      saveTagColors(user.uid, next);
+      return next;
+    });
+  };
+
+  const handleTagColorChange = (tag: string, color: TagColor | null) => {
+    updateTagColors(({ [tag]: _, ...rest }) => color ? { ...rest, [tag]: color } : rest);
+  };
+
+  // Renaming onto a tag that already exists merges the two
+  const handleRenameTag = (from: string, to: string) => {
+    const target = tagCounts.find(entry => entry.tag === to);
+    if (target && !confirm(`Merge "${from}" into "${to}"? Files tagged "${from}" will be tagged "${to}" instead.`)) return;
+    renameTag(files, from, to).forEach((tags, id) => patchFile(id, tags));
+    updateTagColors(({ [from]: color, ...rest }) => color && !rest[to] ? { ...rest, [to]: color } : rest);
+  };
+
+  const handleDeleteTag = (tag: string) => {
+    const count = tagCounts.find(entry => entry.tag === tag)?.count || 0;
+    if (!confirm(`Remove the tag "${tag}" from ${count} ${count === 1 ? 'file' : 'files'}?`)) return;
+    deleteTag(files, tag).forEach((tags, id) => patchFile(id, tags));
+    updateTagColors(({ [tag]: _, ...rest }) => rest);
+  };
+
+  // Collection Handlers
+  const handleToggleSidebar = () => {
+    setIsSidebarOpen(open => {
+      savePreference(user.uid, 'showSidebar', !open);
+      return !open;
+    });
+  };
+
+  const updateCollections = (update: (collections: Collections) => Collections) => {
+    setCollections(prev => {
+      const next = update(prev);
+      saveCollections(user.uid, next);
+      return next;
+    });
+  };
+
+  // Saved searches are counted with the search index, so counts match what opening them shows
+  const [searchCounts, setSearchCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(collections.searches.map(async saved => {
+      const { words, phrases, structured } = splitFreeText(parseQuery(saved.filter.search).query);
+      const hasText = words.length > 0 || phrases.length > 0;
+      const hits = hasText && searchClient ? new Set((await searchClient.search({ words, phrases })).map(hit => hit.id)) : undefined;
+      const matching = applyFilter(files, saved.filter, { folderId: saved.folderId, structured, hits: hasText ? hits ?? new Set<string>() : undefined });
+      return [saved.id, matching.length] as const;
+    }))
+      .then(entries => { if (!cancelled) setSearchCounts(Object.fromEntries(entries)); })
+      .catch(err => console.error("Failed to count saved searches", err));
+    return () => { cancelled = true; };
+  }, [collections.searches, files, searchClient, indexVersion]);
+
+  const albumCounts = useMemo(() => countAlbumFiles(files, collections.albums), [files, collections.albums]);
+
+  // Only analysed files can be checked against an album
+  const albumCandidates = (album: AutoAlbum) =>
+    files.filter(f => f.aiData?.status === 'done' && staleAlbums(f, [album]).length > 0);
+
+  const uncheckedCounts = useMemo(
+    () => Object.fromEntries(collections.albums.map(album => [album.id, albumCandidates(album).length])),
+    [files, collections.albums]
+  );
+
+  const activeSearchId = collections.searches.find(saved => isSavedSearchActive(saved, filter, currentFolderId))?.id ?? null;
+  const activeAlbum = collections.albums.find(album => album.id === filter.album);
+
+  const applyView = (next: FilterState, folderId: string | null) => {
+    setViewFileId(null);
+    setFilter(next);
+    setCurrentFolderId(folderId);
+    if (next.search && sort === DEFAULT_SORT) setSort('relevance');
+    if (!next.search && sort === 'relevance') setSort(DEFAULT_SORT);
+  };
+
+  const handleSaveSearch = (name: string) => {
+    const saved: SavedSearch = { id: crypto.randomUUID(), name, filter, folderId: currentFolderId, createdAt: Date.now() };
+    updateCollections(prev => ({ ...prev, searches: [...prev.searches, saved] }));
+  };
+
+  const handleRenameSearch = (saved: SavedSearch, name: string) => {
+    updateCollections(prev => ({ ...prev, searches: prev.searches.map(s => s.id === saved.id ? { ...s, name } : s) }));
+  };
+
+  const handleDeleteSearch = (saved: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${saved.name}"? Your files are not affected.`)) return;
+    updateCollections(prev => ({ ...prev, searches: prev.searches.filter(s => s.id !== saved.id) }));
+  };
+
+  const handleSelectAlbum = (album: AutoAlbum) => {
+    applyView({ ...filter, album: filter.album === album.id ? undefined : album.id }, currentFolderId);
+  };
+
+  // Every check is a Gemini request, so existing files are only checked on request
+  const handleScanAlbum = (album: AutoAlbum) => {
+    if (!analysisQueueRef.current) {
+      alert("Analysis hasn't started yet. Please try again in a moment.");
+      return;
+    }
+    albumCandidates(album).forEach(file => analysisQueueRef.current?.enqueue(file, { rerun: ['albums'] }));
+  };
+
+  const handleSaveAlbum = (name: string, rule: string) => {
+    const ruleChanged = !editingAlbum || editingAlbum.rule !== rule;
+    const album: AutoAlbum = editingAlbum
+      ? { ...editingAlbum, name, rule, updatedAt: ruleChanged ? Date.now() : editingAlbum.updatedAt }
+      : { id: crypto.randomUUID(), name, rule, updatedAt: Date.now() };
+    // The ref is updated up front so the scan below already sees the new rule
+    collectionsRef.current = {
+      ...collectionsRef.current,
+      albums: editingAlbum ? collectionsRef.current.albums.map(a => a.id === album.id ? album : a) : [...collectionsRef.current.albums, album]
+    };
+    updateCollections(() => collectionsRef.current);
+    setIsAlbumModalOpen(false);
+
+    const candidates = albumCandidates(album);
+    if (ruleChanged && candidates.length > 0 &&
+      confirm(`Check your ${candidates.length} existing ${candidates.length === 1 ? 'file' : 'files'} against "${name}" too? Each one is sent to Gemini.`)) {
+      handleScanAlbum(album);
+    }
+  };
+
+  const handleDeleteAlbum = (album: AutoAlbum) => {
+    if (!confirm(`Delete the album "${album.name}"? Your files are not affected.`)) return;
+    updateCollections(prev => ({ ...prev, albums: prev.albums.filter(a => a.id !== album.id) }));
+    removeAlbum(files, album.id).forEach((albums, id) => patchFile(id, { albums }));
+    if (filter.album === album.id) setFilter(prev => ({ ...prev, album: undefined }));
+  };
+
+  // Folder Handlers
+  const openFolderModal = (folder?: DriveFolder) => {
+    setFolderModalId(folder?.id ?? null);
+    setFolderName(folder?.name ?? '');
+    setIsFolderModalOpen(true);
+  };
+
+  const handleSaveFolder = () => {
+    const name = folderName.trim();
+    if (!name) return;
+
+    const existing = folderModalId ? folders.find(f => f.id === folderModalId) : undefined;
+    const folder: DriveFolder = existing
+      ? { ...existing, name }
+      : { id: crypto.randomUUID(), name, parentId: currentFolderId, createdAt: Date.now() };
+
+    setFolders(prev => existing ? prev.map(f => f.id === folder.id ? folder : f) : [...prev, folder]);
+    storage.putFolder(folder).catch(err => console.error("Failed to save folder", err));
+    setIsFolderModalOpen(false);
+  };
+
+  const handleDeleteFolder = (e: React.MouseEvent, folder: DriveFolder) => {
+    e.stopPropagation();
+    const folderIds = getDescendantFolderIds(folders, folder.id);
+    const contained = files.filter(f => f.parentId && folderIds.has(f.parentId));
+    // The files inside go to the trash; restoring one after its folder is gone puts it in My Drive
+    const message = contained.length > 0
+      ? `Delete "${folder.name}"? The ${contained.length} file(s) inside it will be moved to the trash.`
+      : `Delete "${folder.name}"?`;
+    if (!confirm(message)) return;
+
+    moveToTrash(contained.map(f => f.id));
+    setFolders(prev => prev.filter(f => !folderIds.has(f.id)));
+    if (currentFolderId && folderIds.has(currentFolderId)) setCurrentFolderId(folder.parentId);
+
+    Promise.all(Array.from(folderIds).map(id => storage.deleteFolder(id)))
+      .catch(err => console.error("Failed to delete folder", err));
+  };
+
+  const handleMoveItem = (item: DraggedItem, targetFolderId: string | null) => {
+    if (item.kind === 'file') {
+      const file = files.find(f => f.id === item.id);
+      if (!file || isInFolder(file, targetFolderId)) return;
+      patchFile(file.id, { parentId: targetFolderId });
+    } else {
+      const folder = folders.find(f => f.id === item.id);
+      if (!folder || folder.parentId === targetFolderId) return;
+      if (!canMoveFolder(folders, folder.id, targetFolderId)) return;
+      const moved = { ...folder, parentId: targetFolderId };
+      setFolders(prev => prev.map(f => f.id === moved.id ? moved : f));
+      storage.putFolder(moved).catch(err => console.error("Failed to move folder", err));
+    }
+  };
+
+  const countFolderItems = (folderId: string) =>
+    folders.filter(f => f.parentId === folderId).length + files.filter(f => f.parentId === folderId).length;
+
+  // --- Backup & Restore ---
+  const allFileIds = useMemo(() => new Set([...files, ...trash].map(f => f.id)), [files, trash]);
+
+  const handleExportBackup = async (onProgress: (progress: number) => void) => {
+    try {
+      const { saved, missing } = await exportBackup({ backend: storage, files: [...files, ...trash], folders, tagColors, collections, onProgress });
+      if (saved && missing.length > 0) {
+        alert(`${missing.length} ${missing.length === 1 ? 'file' : 'files'} could not be read and ${missing.length === 1 ? 'was' : 'were'} left out of the backup: ${missing.map(f => f.name).join(', ')}`);
+      }
+    } catch (err) {
+      console.error("Failed to export backup", err);
+      alert(err instanceof Error ? `Export failed: ${err.message}` : "Failed to export your drive.");
+    }
+  };
+
+  // Imported files join the drive (or the trash) as they were backed up; unfinished
+  // analyses are picked up by the queue like any others
+  const handleImportBackup = async (opened: OpenedBackup, mode: ConflictMode, onProgress: (progress: number) => void) => {
+    try {
+      const result = await importBackup({ backend: storage, opened, mode, existingFiles: [...files, ...trash], existingFolders: folders, onProgress });
+      const replaced = new Set(result.replaced);
+      const importedFolderIds = new Set(result.folders.map(f => f.id));
+      setFiles(prev => [...result.files.filter(f => !isTrashed(f)), ...prev.filter(f => !replaced.has(f.id))]);
+      setTrash(prev => [...result.files.filter(isTrashed), ...prev.filter(f => !replaced.has(f.id))]);
+      setFolders(prev => [...prev.filter(f => !importedFolderIds.has(f.id)), ...result.folders]);
+      releasePreviews(result.replaced);
+      updateTagColors(colors => mergeTagColors(colors, opened.backup.tagColors));
+      updateCollections(current => mergeCollections(current, opened.backup.collections));
+      analysisQueueRef.current?.resume(result.files.filter(f => !isTrashed(f)));
+
+      const notes = [
+        result.skipped > 0 ? `${result.skipped} already in your drive were skipped` : '',
+        result.missing > 0 ? `${result.missing} had no contents in the backup` : ''
+      ].filter(Boolean);
+      alert(`Imported ${result.files.length} ${result.files.length === 1 ? 'file' : 'files'}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}.`);
+    } catch (err) {
+      console.error("Failed to import backup", err);
+      alert(err instanceof Error ? `Import failed: ${err.message}` : "Failed to import the backup.");
+      // Whatever was written before the failure is shown rather than left invisible
+      Promise.all([storage.list(), storage.listFolders()])
+        .then(([loadedFiles, loadedFolders]) => {
+          const upgraded = loadedFiles.map(upgradeLegacyAnalysis);
+          setFiles(upgraded.filter(f => !isTrashed(f)));
+          setTrash(upgraded.filter(isTrashed));
+          setFolders(loadedFolders);
+        })
+        .catch(reloadErr => console.error("Failed to reload files", reloadErr));
+    }
+  };
+
+  // --- Chat ---
+  const handleAsk = async (question: string) => {
+    const history = chatMessages;
+    const questionId = crypto.randomUUID();
+    const replyId = crypto.randomUUID();
+    const updateReply = (updates: Partial<ChatMessage>) =>
+      setChatMessages(prev => prev.map(m => m.id === replyId ? { ...m, ...updates } : m));
+
+    setChatMessages(prev => [
+      ...prev,
+      { id: questionId, role: 'user', text: question, sources: [] },
+      { id: replyId, role: 'model', text: '', sources: [], isStreaming: true }
+    ]);
+    setIsChatBusy(true);
+
+    try {
+      const search = searchClient ? searchClient.search : async () => [];
+      let sources = await findRelevantFiles(ai, files, question, search);
+      // Follow-ups like "and the one before that?" keep the previous question's files
+      if (sources.length === 0) {
+        const previous = [...history].reverse().find(m => m.role === 'user' && m.sources.length > 0);
+        sources = (previous?.sources || [])
+          .map(source => files.find(f => f.id === source.id))
+          .filter((f): f is DriveFile => !!f);
+      }
+      const chatSources = sources.map(toChatSource);
+      setChatMessages(prev => prev.map(m => m.id === questionId || m.id === replyId ? { ...m, sources: chatSources } : m));
+
+      const turns = await buildChatTurns(history, question, sources, loadBlob);
+      let text = '';
+      for await (const fragment of ai.chat(turns, CHAT_INSTRUCTIONS)) {
+        text += fragment;
+        updateReply({ text });
+      }
+      updateReply({ isStreaming: false });
+    } catch (err) {
+      console.error("Chat failed", err);
+      updateReply({ isStreaming: false, error: "Couldn't answer that right now. Please try again." });
+    } finally {
+      setIsChatBusy(false);
+    }
+  };
+
+  const handleOpenChatSource = (id: string) => {
+    const file = files.find(f => f.id === id);
+    if (file) setViewFileId(file.id);
+    else alert("That file is no longer in your drive.");
+  };
+
   const handleSignOut = () => {
     signOut(auth);
   };
@@ -783,14 +1805,72 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 group-focus-within:text-gemini-500 transition-colors" size={20} />
             <input 
               type="text" 
-              placeholder="Search files, contents, or AI tags..." 
+              placeholder='Search files, or try tag:invoice type:pdf size:>2mb "exact phrase"' 
               value={filter.search}
-              onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
-              className="w-full pl-10 pr-4 py-2.5 bg-gray-100 border-transparent rounded-xl focus:bg-white focus:ring-2 focus:ring-gemini-100 focus:border-gemini-500 transition-all outline-none"
+              onChange={(e) => handleSearchChange(e.target.value)}
+              aria-invalid={parsedSearch.errors.length > 0}
+              title="Filters: tag:, type:, name:, size:>2mb, after:YYYY-MM-DD, before:YYYY-MM-DD. Prefix a term with - to exclude it."
+              className={`w-full pl-10 pr-32 py-2.5 bg-gray-100 border-transparent rounded-xl focus:bg-white focus:ring-2 transition-all outline-none ${parsedSearch.errors.length > 0 ? 'ring-2 ring-red-200 focus:ring-red-200' : 'focus:ring-gemini-100 focus:border-gemini-500'}`}
             />
+            <button
+              onClick={() => setFilter(prev => ({ ...prev, mode: prev.mode === 'semantic' ? 'keyword' : 'semantic' }))}
+              aria-pressed={filter.mode === 'semantic'}
+              title={filter.mode === 'semantic' ? 'Semantic search: also matches files by meaning' : 'Keyword search: matches the words you type'}
+              className={`absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${filter.mode === 'semantic' ? 'bg-gemini-100 text-gemini-700' : 'text-gray-500 hover:bg-gray-200'}`}
+            >
+              {isEmbeddingQuery ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+              {filter.mode === 'semantic' ? 'Semantic' : 'Keyword'}
+            </button>
+            {parsedSearch.errors.length > 0 && (
+              <div className="absolute left-0 right-0 top-full mt-1 bg-white border border-red-100 rounded-lg shadow-lg p-2 space-y-1 z-40">
+                {parsedSearch.errors.map(error => (
+                  <div key={`${error.start}-${error.message}`} className="flex items-start gap-2 text-xs text-red-600">
+                    <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+                    <span>
+                      <code className="bg-red-50 px-1 rounded">{filter.search.slice(error.start, error.end)}</code> {error.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-3">
+             <button
+                onClick={handleToggleSidebar}
+                className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-full border transition-colors ${isSidebarOpen ? 'bg-gemini-50 border-gemini-200 text-gemini-700' : 'bg-gray-50 hover:bg-gray-100 border-gray-200 text-gray-700'}`}
+                title="Saved searches, auto-albums and tags"
+             >
+                <Library size={16} />
+                <span className="hidden sm:inline font-medium">Browse</span>
+             </button>
+             <button
+                onClick={() => setIsChatOpen(open => !open)}
+                className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-full border transition-colors ${isChatOpen ? 'bg-gemini-50 border-gemini-200 text-gemini-700' : 'bg-gray-50 hover:bg-gray-100 border-gray-200 text-gray-700'}`}
+                title="Ask questions about your files"
+             >
+                <MessageSquare size={16} />
+                <span className="hidden sm:inline font-medium">Ask</span>
+             </button>
+             <button
+                onClick={() => setIsTrashOpen(true)}
+                className="relative p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
+                title="Trash"
+             >
+                <Trash2 size={20} />
+                {trash.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-gray-700 text-white text-[10px] font-medium flex items-center justify-center">
+                    {trash.length}
+                  </span>
+                )}
+             </button>
+             <button
+                onClick={() => setIsAnalysisProfilesOpen(true)}
+                className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
+                title="Analysis settings"
+             >
+                <Settings size={20} />
+             </button>
              <button 
                 onClick={() => setIsProfileModalOpen(true)}
                 className="flex items-center gap-2 text-sm text-gray-700 mr-2 bg-gray-50 hover:bg-gray-100 px-3 py-1.5 rounded-full border border-gray-200 transition-colors"
@@ -805,8 +1885,44 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
              </button>
           </div>
         </div>
+        <div className="max-w-7xl mx-auto mt-2">
+          <Breadcrumbs path={folderPath} onNavigate={setCurrentFolderId} onDropItem={handleMoveItem} />
+        </div>
       </header>
 
+      <div className="flex-1 flex">
+      {isSidebarOpen && (
+        <aside className="w-60 flex-shrink-0 border-r border-gray-200 bg-white p-3 overflow-y-auto custom-scrollbar space-y-4">
+          <CollectionList
+            searches={collections.searches}
+            albums={collections.albums}
+            searchCounts={searchCounts}
+            albumCounts={albumCounts}
+            uncheckedCounts={uncheckedCounts}
+            activeSearchId={activeSearchId}
+            activeAlbumId={filter.album ?? null}
+            onSaveSearch={handleSaveSearch}
+            onSelectSearch={(saved) => applyView(saved.filter, saved.folderId)}
+            onRenameSearch={handleRenameSearch}
+            onDeleteSearch={handleDeleteSearch}
+            onNewAlbum={() => { setEditingAlbum(null); setIsAlbumModalOpen(true); }}
+            onSelectAlbum={handleSelectAlbum}
+            onEditAlbum={(album) => { setEditingAlbum(album); setIsAlbumModalOpen(true); }}
+            onScanAlbum={handleScanAlbum}
+            onDeleteAlbum={handleDeleteAlbum}
+          />
+          <TagList
+            counts={tagCounts}
+            colors={tagColors}
+            activeTags={activeTags}
+            onSelect={handleTagClick}
+            onRename={handleRenameTag}
+            onDelete={handleDeleteTag}
+            onColorChange={handleTagColorChange}
+          />
+        </aside>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 max-w-7xl mx-auto w-full p-6 flex flex-col">
         
@@ -844,21 +1960,107 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
             >
               Documents
             </button>
+
+            <div className="h-6 w-px bg-gray-200 mx-1 flex-shrink-0" />
+            <Filter size={16} className="text-gray-400 flex-shrink-0" />
+            <Select
+              value={filter.dateRange}
+              onChange={(e) => setFilter(prev => ({ ...prev, dateRange: e.target.value as FilterState['dateRange'] }))}
+              title="Upload date"
+            >
+              {DATE_RANGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </Select>
+            <Select value={sort} onChange={(e) => setSort(e.target.value as SortOption)} title="Sort by">
+              {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </Select>
+            <div className="flex items-center bg-white border border-gray-200 rounded-lg p-0.5 flex-shrink-0">
+              <button
+                onClick={() => handleViewModeChange('grid')}
+                className={`p-1.5 rounded-md transition-colors ${viewMode === 'grid' ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+                title="Grid view"
+              >
+                <Grid size={16} />
+              </button>
+              <button
+                onClick={() => handleViewModeChange('list')}
+                className={`p-1.5 rounded-md transition-colors ${viewMode === 'list' ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+                title="List view"
+              >
+                <ListIcon size={16} />
+              </button>
+            </div>
           </div>
 
-          <Button onClick={() => document.getElementById('file-upload')?.click()}>
-            <Plus size={18} /> New Upload
-          </Button>
+          <div className="flex items-center gap-2">
+            {(filter.search || filter.album) && filteredFiles.length > 0 && (
+              <Button variant="ghost" onClick={handleDownloadResults} title="Download these results as a ZIP archive">
+                <Download size={18} /> Download {filteredFiles.length}
+              </Button>
+            )}
+            {(duplicateCount > 0 || hasUnhashedFiles) && (
+              <Button variant="ghost" onClick={() => setIsDuplicatesOpen(true)} title="Review identical copies and similar-looking images">
+                <Copy size={18} /> Duplicates {duplicateCount > 0 ? duplicateCount : ''}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => setIsExtractionExportOpen(true)} title="Export data extracted from receipts, invoices and cards as CSV">
+              <FileSpreadsheet size={18} /> Export Data
+            </Button>
+            {reanalyzable.length > 0 && (
+              <Button variant="ghost" onClick={handleReanalyzeAll} title="Retry failed analyses and refresh ones made with an older model or profile">
+                <RefreshCw size={18} /> Re-analyze {reanalyzable.length}
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => openFolderModal()}>
+              <FolderPlus size={18} /> New Folder
+            </Button>
+            <Button variant="secondary" onClick={() => document.getElementById('folder-upload')?.click()}>
+              <FolderUp size={18} /> Upload Folder
+            </Button>
+            <Button onClick={() => document.getElementById('file-upload')?.click()}>
+              <Plus size={18} /> New Upload
+            </Button>
+          </div>
           <input 
             type="file" 
             id="file-upload" 
             className="hidden" 
-            onChange={(e) => e.target.files?.[0] && prepareUpload(e.target.files[0])}
+            multiple
+            onChange={handleFileInput}
+          />
+          <input
+            type="file"
+            id="resume-upload"
+            className="hidden"
+            onChange={handleResumeInput}
+          />
+          <input
+            type="file"
+            id="folder-upload"
+            className="hidden"
+            webkitdirectory=""
+            onChange={handleFileInput}
           />
         </div>
 
+        {filter.album && (
+          <div className="mb-6 flex items-center gap-3 px-4 py-3 bg-gemini-50 border border-gemini-100 rounded-xl text-sm">
+            <Layers size={16} className="text-gemini-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <span className="font-medium text-gemini-800">{activeAlbum?.name || 'Deleted album'}</span>
+              {activeAlbum && <span className="ml-2 text-gemini-600 truncate">{activeAlbum.rule}</span>}
+            </div>
+            <button onClick={() => setFilter(prev => ({ ...prev, album: undefined }))} className="p-1 rounded text-gemini-600 hover:bg-gemini-100" title="Leave album">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         {/* Drop Zone / Empty State */}
-        {files.length === 0 && !filter.search ? (
+        {isLoadingFiles ? (
+          <div className="flex-1 flex items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 text-gemini-600 animate-spin" />
+          </div>
+        ) : files.length === 0 && folders.length === 0 && !filter.search ? (
            <div 
              className={`flex-1 flex flex-col items-center justify-center border-2 border-dashed rounded-3xl transition-colors ${isDragging ? 'border-gemini-500 bg-gemini-50' : 'border-gray-300 bg-white'}`}
              onDragOver={handleDragOver}
@@ -868,7 +2070,7 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
              <div className="w-20 h-20 bg-gray-50 rounded-full flex items-center justify-center mb-6">
                 <Upload size={32} className="text-gray-400" />
              </div>
-             <h3 className="text-xl font-semibold text-gray-800 mb-2">Drop files here to upload</h3>
+             <h3 className="text-xl font-semibold text-gray-800 mb-2">Drop files or folders here to upload</h3>
              <p className="text-gray-500 max-w-sm text-center mb-8">
                Support for Images, Video, Audio, PDFs, and Text files. Gemini AI will automatically tag and summarize them.
              </p>
@@ -878,25 +2080,79 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
            </div>
         ) : (
           <div className="flex-1 overflow-y-auto pb-20" onDragOver={handleDragOver} onDrop={handleDrop}>
-             {Object.keys(groupedFiles).length === 0 && (
+             {visibleFolders.length > 0 && (
+               <div className="mb-8">
+                 <h2 className="text-sm font-semibold text-gray-500 mb-4 flex items-center gap-2">
+                   Folders <span className="text-xs font-normal bg-gray-200 px-2 py-0.5 rounded-full text-gray-600">{visibleFolders.length}</span>
+                 </h2>
+                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
+                   {visibleFolders.map(folder => (
+                     <FolderCard
+                       key={folder.id}
+                       folder={folder}
+                       itemCount={countFolderItems(folder.id)}
+                       onOpen={() => { setCurrentFolderId(folder.id); handleSearchChange(''); }}
+                       onRename={(e) => { e.stopPropagation(); openFolderModal(folder); }}
+                       onDownload={(e) => handleDownloadFolder(e, folder)}
+                       onDelete={(e) => handleDeleteFolder(e, folder)}
+                       onDropItem={(item) => handleMoveItem(item, folder.id)}
+                     />
+                   ))}
+                 </div>
+               </div>
+             )}
+
+             {groupedFiles.length === 0 && visibleFolders.length === 0 && (
                 <div className="text-center py-20">
-                  <p className="text-gray-500">No files found matching your filters.</p>
+                  <p className="text-gray-500">{filter.search || filter.type !== 'all' || filter.dateRange !== 'all' ? 'No files found matching your filters.' : 'This folder is empty.'}</p>
                 </div>
              )}
              
-             {Object.entries(groupedFiles).map(([dateLabel, groupFiles]) => (
-               <div key={dateLabel} className="mb-8 animate-in slide-in-from-bottom-2 duration-500">
-                 <h2 className="text-sm font-semibold text-gray-500 mb-4 sticky top-0 bg-gray-50 py-2 z-10 flex items-center gap-2">
-                   {dateLabel} <span className="text-xs font-normal bg-gray-200 px-2 py-0.5 rounded-full text-gray-600">{groupFiles.length}</span>
+             {viewMode === 'list' && filteredFiles.length > 0 && (
+               <FileTable
+                 files={filteredFiles}
+                 columnWidths={columnWidths}
+                 onColumnWidthsChange={handleColumnWidthsChange}
+                 onOpen={(file) => setViewFileId(file.id)}
+                 onEdit={openEditModal}
+                 onDelete={(e, file) => handleDelete(e, file.id)}
+                 canReanalyze={isReanalyzable}
+                 onReanalyze={handleReanalyze}
+                 selectedIds={selectedIds}
+                 onSelect={(file, range, order) => handleSelect(file.id, range, order)}
+                 onSelectAll={(ids) => setSelectedIds(prev => toggleAll(prev, ids))}
+               />
+             )}
+
+             {viewMode === 'grid' && groupedFiles.map(group => (
+               <div key={group.label} className="mb-8 animate-in slide-in-from-bottom-2 duration-500">
+                 <h2 className="group/header text-sm font-semibold text-gray-500 mb-4 sticky top-0 bg-gray-50 py-2 z-10 flex items-center gap-2">
+                   <input
+                     type="checkbox"
+                     checked={isAllSelected(selectedIds, group.files.map(f => f.id))}
+                     onChange={() => setSelectedIds(prev => toggleAll(prev, group.files.map(f => f.id)))}
+                     className={`rounded text-gemini-600 cursor-pointer transition-opacity ${selectedIds.size > 0 ? 'opacity-100' : 'opacity-0 group-hover/header:opacity-100'}`}
+                     title={`Select all in ${group.label}`}
+                   />
+                   {group.label} <span className="text-xs font-normal bg-gray-200 px-2 py-0.5 rounded-full text-gray-600">{group.files.length}</span>
                  </h2>
                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                   {groupFiles.map(file => (
+                   {group.files.map(file => (
                      <FileCard 
                        key={file.id} 
                        file={file} 
-                       onClick={() => setViewFile(file)}
+                       previewUrl={previewUrls[file.id]}
+                       searchHit={searchHits?.get(file.id)}
+                       onClick={() => setViewFileId(file.id)}
                        onDelete={(e) => handleDelete(e, file.id)}
                        onEdit={(e) => openEditModal(e, file)}
+                       canReanalyze={isReanalyzable(file)}
+                       onReanalyze={(e) => handleReanalyze(e, file)}
+                       tagColors={tagColors}
+                       onTagClick={handleTagClick}
+                       isSelected={selectedIds.has(file.id)}
+                       isSelecting={selectedIds.size > 0}
+                       onSelect={(range) => handleSelect(file.id, range, gridOrder)}
                      />
                    ))}
                  </div>
@@ -905,64 +2161,31 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
           </div>
         )}
       </main>
+      </div>
 
-      {/* Upload Modal */}
-      <Modal 
-        isOpen={isUploadModalOpen} 
-        onClose={() => !isUploading && setIsUploadModalOpen(false)}
-        title="Upload File"
-      >
-        <div className="p-6 space-y-4">
-          {/* File Preview */}
-          <div className="w-full h-48 bg-gray-100 rounded-xl overflow-hidden flex items-center justify-center relative border border-gray-200">
-             {uploadPreview && uploadFile?.type.startsWith('image/') ? (
-               <img src={uploadPreview} alt="Preview" className="w-full h-full object-contain" />
-             ) : (
-               <FileIcon className="text-gray-400 w-16 h-16" />
-             )}
-             <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded-md backdrop-blur-sm">
-               {formatBytes(uploadFile?.size || 0)}
-             </div>
-          </div>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">File Name</label>
-              <Input 
-                value={uploadName} 
-                onChange={(e) => setUploadName(e.target.value)} 
-                placeholder="Enter file name"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Notes (Optional)</label>
-              <textarea 
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gemini-500/20 focus:border-gemini-500 min-h-[100px] resize-none"
-                placeholder="Add some details about this file..."
-                value={uploadNotes}
-                onChange={(e) => setUploadNotes(e.target.value)}
-              />
-            </div>
-          </div>
+      {selectedFiles.length > 0 && (
+        <BulkActionBar
+          count={selectedFiles.length}
+          folders={folders}
+          knownTags={tagCounts.map(entry => entry.tag)}
+          onClear={clearSelection}
+          onDelete={handleBulkDelete}
+          onMove={handleBulkMove}
+          onAddTag={(tag) => handleBulkTag(tag, true)}
+          onRemoveTag={(tag) => handleBulkTag(tag, false)}
+          onReanalyze={handleBulkReanalyze}
+          onDownload={handleBulkDownload}
+        />
+      )}
 
-          <div className="pt-2 flex items-center justify-between">
-            <div className="flex items-center gap-2 text-sm text-gemini-600 bg-gemini-50 px-3 py-1.5 rounded-lg border border-gemini-100">
-               <Sparkles size={16} />
-               <span>AI Analysis enabled</span>
-            </div>
-            <div className="flex items-center gap-2">
-               <Button variant="ghost" onClick={() => setIsUploadModalOpen(false)} disabled={isUploading}>Cancel</Button>
-               <Button onClick={handleConfirmUpload} disabled={isUploading}>
-                 {isUploading ? (
-                   <>
-                     <Loader2 size={18} className="animate-spin" /> Uploading...
-                   </>
-                 ) : 'Upload'}
-               </Button>
-            </div>
-          </div>
-        </div>
-      </Modal>
+      <ArchiveModal
+        request={archiveRequest}
+        folders={folders}
+        includeManifest={includeManifest}
+        onIncludeManifestChange={handleIncludeManifestChange}
+        loadBlob={loadBlob}
+        onClose={() => setArchiveRequest(null)}
+      />
 
       {/* Edit Modal */}
       <Modal
@@ -986,6 +2209,18 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
                 onChange={(e) => setEditNotes(e.target.value)}
               />
             </div>
+            {editingFile && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                <TagEditor
+                  file={editingFile}
+                  state={editTags}
+                  colors={tagColors}
+                  knownTags={tagCounts.map(entry => entry.tag)}
+                  onChange={setEditTags}
+                />
+              </div>
+            )}
             <div className="flex justify-end pt-2 gap-2">
               <Button variant="ghost" onClick={() => setIsEditModalOpen(false)}>Cancel</Button>
               <Button onClick={handleSaveEdit}>Save Changes</Button>
@@ -993,6 +2228,57 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
         </div>
       </Modal>
 
+      <TrashModal
+        isOpen={isTrashOpen}
+        files={trash}
+        folders={folders}
+        retentionDays={retentionDays}
+        onRetentionChange={handleRetentionChange}
+        onRestore={handleRestore}
+        onDeleteForever={handleDeleteForever}
+        onClose={() => setIsTrashOpen(false)}
+      />
+
+      <DuplicatesModal
+        isOpen={isDuplicatesOpen}
+        groups={duplicateGroups}
+        checkingCount={hashingCount}
+        folders={folders}
+        previewUrls={previewUrls}
+        onClose={() => setIsDuplicatesOpen(false)}
+        onDelete={handleDeleteDuplicates}
+      />
+
+      <AlbumModal
+        isOpen={isAlbumModalOpen}
+        album={editingAlbum}
+        onClose={() => setIsAlbumModalOpen(false)}
+        onSave={handleSaveAlbum}
+      />
+
+      {/* Folder Modal */}
+      <Modal
+        isOpen={isFolderModalOpen}
+        onClose={() => setIsFolderModalOpen(false)}
+        title={folderModalId ? 'Rename Folder' : 'New Folder'}
+      >
+        <form className="p-6 space-y-4" onSubmit={(e) => { e.preventDefault(); handleSaveFolder(); }}>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Folder Name</label>
+            <Input
+              autoFocus
+              value={folderName}
+              onChange={(e) => setFolderName(e.target.value)}
+              placeholder="Untitled folder"
+            />
+          </div>
+          <div className="flex justify-end pt-2 gap-2">
+            <Button type="button" variant="ghost" onClick={() => setIsFolderModalOpen(false)}>Cancel</Button>
+            <Button type="submit" disabled={!folderName.trim()}>{folderModalId ? 'Rename' : 'Create'}</Button>
+          </div>
+        </form>
+      </Modal>
+
       {/* Profile Modal */}
       <ProfileModal 
         isOpen={isProfileModalOpen}
@@ -1000,15 +2286,81 @@ const DriveDashboard: React.FC<DriveDashboardProps> = ({ user }) => {
         userProfile={userProfile}
         onUpdate={handleUpdateProfile}
         onDelete={handleDeleteAccount}
+        onOpenBackup={() => { setIsProfileModalOpen(false); setIsBackupOpen(true); }}
+      />
+
+      <BackupModal
+        isOpen={isBackupOpen}
+        fileCount={files.length + trash.length}
+        folderCount={folders.length}
+        existingFileIds={allFileIds}
+        onClose={() => setIsBackupOpen(false)}
+        onExport={handleExportBackup}
+        onImport={handleImportBackup}
+      />
+
+      {/* Analysis Profiles */}
+      <AnalysisProfilesModal
+        isOpen={isAnalysisProfilesOpen}
+        profiles={analysisProfiles}
+        onClose={() => setIsAnalysisProfilesOpen(false)}
+        onSave={handleSaveAnalysisProfiles}
+      />
+
+      {/* Document Data Export */}
+      <ExtractionExportModal
+        isOpen={isExtractionExportOpen}
+        files={files}
+        visibleFiles={filteredFiles}
+        onClose={() => setIsExtractionExportOpen(false)}
       />
 
       {/* Full Screen Viewer */}
       {viewFile && (
-        <FileViewer file={viewFile} onClose={() => setViewFile(null)} />
+        <FileViewer
+          file={viewFile}
+          loadBlob={loadBlob}
+          onClose={() => setViewFileId(null)}
+          onSaveExtraction={(kind, data) => handleSaveExtraction(viewFile, kind, data)}
+          onRerunExtraction={() => handleRerunStage(viewFile, 'extraction')}
+          onRetranscribe={() => handleRerunStage(viewFile, 'transcription')}
+          onRereadText={() => handleRerunStage(viewFile, 'ocr')}
+          tagColors={tagColors}
+          onTagClick={handleTagClick}
+          onAcceptTag={(tag) => handleAcceptTag(viewFile, tag)}
+          onRejectTag={(tag) => handleRejectTag(viewFile, tag)}
+          versionProgress={versionProgress[viewFile.id] ?? null}
+          onUploadVersion={(upload) => handleUploadVersion(viewFile, upload)}
+          onDownloadVersion={(version) => handleDownloadVersion(viewFile, version)}
+          onRestoreVersion={(version) => handleRestoreVersion(viewFile, version)}
+        />
       )}
 
+      {/* Ask-your-drive Chat */}
+      {isChatOpen && (
+        <ChatPanel
+          messages={chatMessages}
+          isBusy={isChatBusy}
+          onSend={handleAsk}
+          onClear={() => setChatMessages([])}
+          onClose={() => setIsChatOpen(false)}
+          onOpenSource={handleOpenChatSource}
+        />
+      )}
+
+      {/* Upload Progress */}
+      <UploadTray
+        uploads={uploads}
+        interrupted={interruptedUploads}
+        onCancel={uploadQueue.cancel}
+        onRetry={uploadQueue.retry}
+        onResume={handleResumeUpload}
+        onDiscard={handleDiscardUpload}
+        onClearFinished={uploadQueue.clearFinished}
+      />
+
       {/* Drag Overlay */}
-      {isDragging && !isUploadModalOpen && (
+      {isDragging && (
         <div 
           className="fixed inset-0 z-50 bg-gemini-500/90 backdrop-blur-sm flex flex-col items-center justify-center animate-in fade-in duration-200"
           onDragLeave={handleDragLeave}
@@ -1059,13 +2411,4 @@ const App: React.FC = () => {
   return <DriveDashboard user={user} />;
 };
 
-// Helper for bytes
-const formatBytes = (bytes: number) => {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
-
 export default App;
\ No newline at end of file
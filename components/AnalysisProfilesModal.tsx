@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, RotateCcw, AlertTriangle } from 'lucide-react';
+import { AnalysisField, AnalysisFieldType, AnalysisProfile } from '../types';
+import { Modal, Button, Input, Select } from './UI';
+import { getFileIcon } from './FileComponents';
+import {
+  AnalysisProfiles, AnalyzableType, ANALYZABLE_TYPES, ANALYSIS_MODELS, DEFAULT_PROFILES, MAX_TAGS, validateProfile
+} from '../services/analysisProfiles';
+
+interface AnalysisProfilesModalProps {
+  isOpen: boolean;
+  profiles: AnalysisProfiles;
+  onClose: () => void;
+  onSave: (profiles: AnalysisProfiles) => void;
+}
+
+const TYPE_LABELS: Record<AnalyzableType, string> = {
+  image: 'Images',
+  pdf: 'PDFs',
+  text: 'Text',
+  audio: 'Audio',
+  video: 'Video'
+};
+
+const FIELD_TYPES: { value: AnalysisFieldType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'string[]', label: 'List' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / No' }
+];
+
+export const AnalysisProfilesModal: React.FC<AnalysisProfilesModalProps> = ({ isOpen, profiles, onClose, onSave }) => {
+  const [draft, setDraft] = useState(profiles);
+  const [activeType, setActiveType] = useState<AnalyzableType>('image');
+
+  useEffect(() => {
+    if (isOpen) setDraft(profiles);
+  }, [isOpen, profiles]);
+
+  const profile = draft[activeType];
+  const errors = ANALYZABLE_TYPES
+    .map(type => ({ type, error: validateProfile(draft[type]) }))
+    .filter((entry): entry is { type: AnalyzableType; error: string } => !!entry.error);
+
+  const updateProfile = (updates: Partial<AnalysisProfile>) =>
+    setDraft(prev => ({ ...prev, [activeType]: { ...prev[activeType], ...updates } }));
+
+  const updateField = (index: number, updates: Partial<AnalysisField>) =>
+    updateProfile({ fields: profile.fields.map((field, i) => i === index ? { ...field, ...updates } : field) });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Analysis Profiles" maxWidth="max-w-3xl">
+      <div className="flex min-h-[28rem]">
+        <nav className="w-40 border-r border-gray-100 p-2 space-y-1 flex-shrink-0">
+          {ANALYZABLE_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => setActiveType(type)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${activeType === type ? 'bg-gemini-50 text-gemini-700 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {getFileIcon(type, 16)}
+              <span className="flex-1">{TYPE_LABELS[type]}</span>
+              {errors.some(e => e.type === type) && <AlertTriangle size={12} className="text-red-500" />}
+            </button>
+          ))}
+        </nav>
+
+        <div className="flex-1 p-6 space-y-5">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+              <Select value={profile.model} onChange={(e) => updateProfile({ model: e.target.value })} className="w-full">
+                {ANALYSIS_MODELS.map(model => <option key={model.value} value={model.value}>{model.label}</option>)}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min tags</label>
+              <Input type="number" min={0} max={MAX_TAGS} value={profile.minTags} onChange={(e) => updateProfile({ minTags: Number(e.target.value) })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max tags</label>
+              <Input type="number" min={0} max={MAX_TAGS} value={profile.maxTags} onChange={(e) => updateProfile({ maxTags: Number(e.target.value) })} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prompt</label>
+            <textarea
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gemini-500/20 focus:border-gemini-500 min-h-[90px] resize-y text-sm"
+              value={profile.prompt}
+              onChange={(e) => updateProfile({ prompt: e.target.value })}
+            />
+            <p className="text-xs text-gray-400 mt-1">A summary and tags are always requested; extra fields below are added to the response.</p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">Extra fields</label>
+              <button
+                onClick={() => updateProfile({ fields: [...profile.fields, { key: '', type: 'string', description: '' }] })}
+                className="text-xs flex items-center gap-1 text-gemini-600 hover:text-gemini-700"
+              >
+                <Plus size={14} /> Add field
+              </button>
+            </div>
+            {profile.fields.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No extra fields.</p>
+            ) : (
+              <div className="space-y-2">
+                {profile.fields.map((field, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <div className="w-36 flex-shrink-0">
+                      <Input value={field.key} onChange={(e) => updateField(index, { key: e.target.value.trim() })} placeholder="fieldName" className="font-mono text-sm" />
+                    </div>
+                    <Select value={field.type} onChange={(e) => updateField(index, { type: e.target.value as AnalysisFieldType })}>
+                      {FIELD_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                    </Select>
+                    <div className="flex-1">
+                      <Input value={field.description} onChange={(e) => updateField(index, { description: e.target.value })} placeholder="What the model should put here" className="text-sm" />
+                    </div>
+                    <button
+                      onClick={() => updateProfile({ fields: profile.fields.filter((_, i) => i !== index) })}
+                      className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                      title="Remove field"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="text-xs text-red-600 space-y-1">
+              {errors.map(({ type, error }) => (
+                <p key={type} className="flex items-center gap-1"><AlertTriangle size={12} /> {TYPE_LABELS[type]}: {error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between">
+        <Button variant="ghost" onClick={() => updateProfile(DEFAULT_PROFILES[activeType])} className="text-sm">
+          <RotateCcw size={14} /> Reset {TYPE_LABELS[activeType]}
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onSave(draft)} disabled={errors.length > 0}>Save Profiles</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
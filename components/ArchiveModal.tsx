@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Download, Loader2, FileJson } from 'lucide-react';
+import { DriveFile, DriveFolder } from '../types';
+import { Modal, Button } from './UI';
+import { formatBytes } from './FileComponents';
+import { MANIFEST_NAME, downloadArchive } from '../services/archive';
+
+// What to put in the archive: a selection, a search's results or a folder
+export interface ArchiveRequest {
+  name: string;
+  files: DriveFile[];
+  // Paths start below this folder; omitted, the files' common folder is used
+  baseFolderId?: string | null;
+}
+
+interface ArchiveModalProps {
+  request: ArchiveRequest | null;
+  folders: DriveFolder[];
+  includeManifest: boolean;
+  onIncludeManifestChange: (include: boolean) => void;
+  loadBlob: (id: string) => Promise<Blob | null>;
+  onClose: () => void;
+}
+
+export const ArchiveModal: React.FC<ArchiveModalProps> = ({ request, folders, includeManifest, onIncludeManifestChange, loadBlob, onClose }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const isBusy = progress !== null;
+
+  if (!request) return null;
+  const totalBytes = request.files.reduce((sum, f) => sum + f.size, 0);
+
+  const handleDownload = async () => {
+    setProgress(0);
+    try {
+      const saved = await downloadArchive({ ...request, folders, includeManifest, loadBlob, onProgress: setProgress });
+      if (saved) onClose();
+    } catch (err) {
+      console.error("Failed to build ZIP archive", err);
+      alert(err instanceof Error ? err.message : "Failed to create the ZIP archive.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={isBusy ? () => {} : onClose} title="Download as ZIP">
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          <span className="font-medium text-gray-800">{request.name}.zip</span> will hold {request.files.length} {request.files.length === 1 ? 'file' : 'files'} ({formatBytes(totalBytes)}), kept in their folders.
+        </p>
+        <label className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+          <input
+            type="checkbox"
+            checked={includeManifest}
+            onChange={(e) => onIncludeManifestChange(e.target.checked)}
+            disabled={isBusy}
+            className="mt-0.5 rounded text-gemini-600"
+          />
+          <span className="text-sm">
+            <span className="flex items-center gap-1.5 font-medium text-gray-800"><FileJson size={14} /> Include {MANIFEST_NAME}</span>
+            <span className="text-gray-500">Each file's notes, tags and AI summary, for whoever receives the archive.</span>
+          </span>
+        </label>
+        {isBusy && (
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-gemini-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose} disabled={isBusy}>Cancel</Button>
+          <Button onClick={handleDownload} disabled={isBusy || request.files.length === 0}>
+            {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isBusy ? `Zipping ${Math.round(progress * 100)}%` : 'Download'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Download, Upload, Loader2, AlertTriangle, FileArchive } from 'lucide-react';
+import { Modal, Button } from './UI';
+import { CONFLICT_MODES, ConflictMode, OpenedBackup, countConflicts, openBackup } from '../services/backup';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  fileCount: number;
+  folderCount: number;
+  existingFileIds: Set<string>;
+  onClose: () => void;
+  onExport: (onProgress: (progress: number) => void) => Promise<void>;
+  onImport: (opened: OpenedBackup, mode: ConflictMode, onProgress: (progress: number) => void) => Promise<void>;
+}
+
+const ProgressBar: React.FC<{ progress: number }> = ({ progress }) => (
+  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+    <div className="h-full bg-gemini-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+  </div>
+);
+
+// Export the whole drive to one archive, or bring a backup back in
+export const BackupModal: React.FC<BackupModalProps> = ({ isOpen, fileCount, folderCount, existingFileIds, onClose, onExport, onImport }) => {
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
+  const [opened, setOpened] = useState<OpenedBackup | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [mode, setMode] = useState<ConflictMode>('skip');
+  const isBusy = exportProgress !== null || importProgress !== null || isOpening;
+
+  const conflicts = opened ? countConflicts(opened.backup, existingFileIds) : 0;
+
+  const reset = () => {
+    setOpened(null);
+    setOpenError(null);
+    setMode('skip');
+  };
+
+  const handleClose = () => {
+    if (isBusy) return;
+    reset();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setExportProgress(0);
+    try {
+      await onExport(setExportProgress);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handleChooseFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';
+    if (!archive) return;
+    reset();
+    setIsOpening(true);
+    try {
+      setOpened(await openBackup(archive));
+    } catch (err) {
+      console.error("Failed to read backup", err);
+      setOpenError(err instanceof Error ? err.message : 'The backup could not be read.');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!opened) return;
+    setImportProgress(0);
+    try {
+      await onImport(opened, mode, setImportProgress);
+      reset();
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Backup & Restore">
+      <div className="p-6 space-y-6">
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-800">Export my drive</h3>
+          <p className="text-sm text-gray-500">
+            Saves all {fileCount} {fileCount === 1 ? 'file' : 'files'} (including the trash and earlier versions), {folderCount} {folderCount === 1 ? 'folder' : 'folders'}, notes, tags, AI results and collections to one ZIP archive.
+          </p>
+          {exportProgress !== null && <ProgressBar progress={exportProgress} />}
+          <Button variant="secondary" onClick={handleExport} disabled={isBusy || fileCount + folderCount === 0}>
+            {exportProgress !== null ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {exportProgress !== null ? `Exporting ${Math.round(exportProgress * 100)}%` : 'Export'}
+          </Button>
+        </section>
+
+        <section className="space-y-3 pt-6 border-t border-gray-100">
+          <h3 className="text-sm font-semibold text-gray-800">Import a backup</h3>
+          <Button variant="secondary" onClick={() => document.getElementById('backup-file')?.click()} disabled={isBusy}>
+            {isOpening ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Choose backup…
+          </Button>
+          <input id="backup-file" type="file" accept=".zip,application/zip" className="hidden" onChange={handleChooseFile} />
+
+          {openError && (
+            <p className="flex items-start gap-2 text-sm text-red-600">
+              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" /> {openError}
+            </p>
+          )}
+
+          {opened && (
+            <div className="space-y-3">
+              <div className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 border border-gray-200 text-sm">
+                <FileArchive size={18} className="text-gemini-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-gray-800">
+                    {opened.backup.files.length} {opened.backup.files.length === 1 ? 'file' : 'files'}, {opened.backup.folders.length} {opened.backup.folders.length === 1 ? 'folder' : 'folders'}
+                  </p>
+                  <p className="text-xs text-gray-500">Exported {new Date(opened.backup.exportedAt).toLocaleString()} • format version {opened.backup.version}</p>
+                </div>
+              </div>
+
+              {conflicts > 0 && (
+                <fieldset className="space-y-2">
+                  <legend className="text-sm text-gray-700 mb-2">
+                    {conflicts} {conflicts === 1 ? 'file is' : 'files are'} already in your drive:
+                  </legend>
+                  {CONFLICT_MODES.map(option => (
+                    <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        name="conflict-mode"
+                        checked={mode === option.value}
+                        onChange={() => setMode(option.value)}
+                        disabled={isBusy}
+                        className="mt-0.5 text-gemini-600"
+                      />
+                      <span><span className="font-medium text-gray-800">{option.label}</span> <span className="text-gray-500">— {option.description}</span></span>
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+
+              {importProgress !== null && <ProgressBar progress={importProgress} />}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={reset} disabled={isBusy}>Cancel</Button>
+                <Button onClick={handleImport} disabled={isBusy}>
+                  {importProgress !== null ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                  {importProgress !== null ? `Importing ${Math.round(importProgress * 100)}%` : 'Import'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </Modal>
+  );
+};
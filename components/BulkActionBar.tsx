@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { X, Trash2, FolderInput, Tag, RotateCw, Download, Plus, Minus } from 'lucide-react';
+import { DriveFolder } from '../types';
+import { getFolderPath } from '../services/folders';
+
+interface BulkActionBarProps {
+  count: number;
+  folders: DriveFolder[];
+  knownTags: string[];
+  onClear: () => void;
+  onDelete: () => void;
+  onMove: (folderId: string | null) => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onReanalyze: () => void;
+  onDownload: () => void;
+}
+
+// Option value for the drive root, which has no folder id
+const ROOT = '__root__';
+
+const barButton = "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-200 hover:bg-white/10 disabled:opacity-50 transition-colors";
+
+// Floats over the file views while files are selected
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count, folders, knownTags, onClear, onDelete, onMove, onAddTag, onRemoveTag, onReanalyze, onDownload
+}) => {
+  const [isMoveOpen, setIsMoveOpen] = useState(false);
+  const [isTagOpen, setIsTagOpen] = useState(false);
+  const [tag, setTag] = useState('');
+
+  const folderOptions = folders
+    .map(folder => ({ id: folder.id, label: getFolderPath(folders, folder.id).map(f => f.name).join(' / ') }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const applyTag = (apply: (tag: string) => void) => {
+    if (!tag.trim()) return;
+    apply(tag);
+    setTag('');
+    setIsTagOpen(false);
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 px-2 py-2 bg-gray-900 text-white rounded-xl shadow-2xl animate-in slide-in-from-bottom-2 duration-200">
+      <button onClick={onClear} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10" title="Clear selection (Esc)">
+        <X size={16} />
+      </button>
+      <span className="px-2 text-sm font-medium whitespace-nowrap">{count} selected</span>
+      <div className="w-px h-5 bg-white/20 mx-1" />
+
+      <div className="relative">
+        <button onClick={() => { setIsMoveOpen(open => !open); setIsTagOpen(false); }} className={barButton}>
+          <FolderInput size={16} /> Move
+        </button>
+        {isMoveOpen && (
+          <div className="absolute bottom-full mb-2 left-0 w-64 max-h-72 overflow-y-auto custom-scrollbar bg-white text-gray-700 rounded-lg shadow-xl border border-gray-200 py-1">
+            {[{ id: ROOT, label: 'My Drive' }, ...folderOptions].map(option => (
+              <button
+                key={option.id}
+                onClick={() => { onMove(option.id === ROOT ? null : option.id); setIsMoveOpen(false); }}
+                className="w-full px-3 py-1.5 text-sm text-left truncate hover:bg-gray-100"
+                title={option.label}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="relative">
+        <button onClick={() => { setIsTagOpen(open => !open); setIsMoveOpen(false); }} className={barButton}>
+          <Tag size={16} /> Tags
+        </button>
+        {isTagOpen && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); applyTag(onAddTag); }}
+            className="absolute bottom-full mb-2 left-0 w-64 p-3 bg-white text-gray-700 rounded-lg shadow-xl border border-gray-200 space-y-2"
+          >
+            <input
+              autoFocus
+              value={tag}
+              list="bulk-known-tags"
+              placeholder="Tag name"
+              onChange={(e) => setTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setIsTagOpen(false)}
+              className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md outline-none focus:border-gemini-500 focus:ring-2 focus:ring-gemini-500/20"
+            />
+            <datalist id="bulk-known-tags">
+              {knownTags.map(known => <option key={known} value={known} />)}
+            </datalist>
+            <div className="flex gap-2">
+              <button type="submit" disabled={!tag.trim()} className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-sm bg-gemini-600 text-white hover:bg-gemini-700 disabled:opacity-50">
+                <Plus size={14} /> Add
+              </button>
+              <button type="button" onClick={() => applyTag(onRemoveTag)} disabled={!tag.trim()} className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50">
+                <Minus size={14} /> Remove
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <button onClick={onReanalyze} className={barButton} title="Re-run AI analysis">
+        <RotateCw size={16} /> Re-analyze
+      </button>
+      <button onClick={onDownload} className={barButton} title="Download as a ZIP archive">
+        <Download size={16} /> Download
+      </button>
+      <button onClick={onDelete} className={`${barButton} hover:!bg-red-500/20 hover:text-red-300`}>
+        <Trash2 size={16} /> Delete
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Send, Sparkles, Loader2, AlertTriangle, Trash2 } from 'lucide-react';
+import { ChatMessage, ChatSource } from '../services/driveChat';
+import { getFileIcon } from './FileComponents';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  isBusy: boolean;
+  onSend: (question: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+  onOpenSource: (id: string) => void;
+}
+
+const EXAMPLE_QUESTIONS = [
+  "What was the total on last month's invoices?",
+  'Which photos were taken at the beach?',
+  'Summarize my meeting notes'
+];
+
+// Renders "[2]" citations in an answer as links to the cited file
+const AnswerText: React.FC<{ text: string; sources: ChatSource[]; onOpenSource: (id: string) => void }> = ({ text, sources, onOpenSource }) => (
+  <>
+    {text.split(/(\[\d+\])/).map((part, i) => {
+      const source = /^\[(\d+)\]$/.test(part) ? sources[parseInt(part.slice(1, -1), 10) - 1] : undefined;
+      if (!source) return <React.Fragment key={i}>{part}</React.Fragment>;
+      return (
+        <button
+          key={i}
+          onClick={() => onOpenSource(source.id)}
+          title={source.name}
+          className="inline-flex items-center px-1 mx-0.5 rounded bg-gemini-100 text-gemini-700 text-xs font-semibold hover:bg-gemini-200 align-baseline"
+        >
+          {part.slice(1, -1)}
+        </button>
+      );
+    })}
+  </>
+);
+
+const SourceList: React.FC<{ sources: ChatSource[]; onOpenSource: (id: string) => void }> = ({ sources, onOpenSource }) => (
+  <div className="mt-2 pt-2 border-t border-gray-100">
+    <p className="text-[11px] uppercase tracking-wider text-gray-400 mb-1">Files used as context</p>
+    <ol className="space-y-1">
+      {sources.map((source, index) => (
+        <li key={source.id}>
+          <button onClick={() => onOpenSource(source.id)} className="flex items-center gap-1.5 text-xs text-gray-600 hover:text-gemini-600 max-w-full">
+            <span className="font-semibold text-gray-400 w-4 text-right">{index + 1}</span>
+            {getFileIcon(source.type, 12)}
+            <span className="truncate">{source.name}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isBusy, onSend, onClear, onClose, onOpenSource }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the streaming answer
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const send = (question: string) => {
+    if (!question.trim() || isBusy) return;
+    onSend(question.trim());
+    setDraft('');
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-40 w-full sm:w-96 bg-white border-l border-gray-200 shadow-xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <h2 className="font-semibold text-gray-800 flex items-center gap-2">
+          <Sparkles size={16} className="text-gemini-500" /> Ask your drive
+        </h2>
+        <div className="flex items-center gap-1">
+          {messages.length > 0 && (
+            <button onClick={onClear} disabled={isBusy} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-50" title="New conversation">
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button onClick={onClose} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {messages.length === 0 && (
+          <div className="text-sm text-gray-500 space-y-3">
+            <p>Ask a question and Gemini will answer from the files it finds most relevant, citing each one it used.</p>
+            {EXAMPLE_QUESTIONS.map(question => (
+              <button key={question} onClick={() => send(question)} className="block w-full text-left px-3 py-2 rounded-lg border border-gray-200 hover:border-gemini-300 hover:bg-gemini-50 text-gray-700">
+                {question}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <p className="max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm bg-gemini-600 text-white text-sm whitespace-pre-wrap">{message.text}</p>
+          </div>
+        ) : (
+          <div key={message.id} className="max-w-[95%] px-3 py-2 rounded-2xl rounded-bl-sm bg-gray-50 border border-gray-100 text-sm text-gray-800">
+            {message.error ? (
+              <p className="flex items-start gap-2 text-red-600"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" /> {message.error}</p>
+            ) : message.text ? (
+              <p className="whitespace-pre-wrap leading-relaxed">
+                <AnswerText text={message.text} sources={message.sources} onOpenSource={onOpenSource} />
+                {message.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 bg-gemini-400 animate-pulse align-text-bottom" />}
+              </p>
+            ) : (
+              <p className="flex items-center gap-2 text-gray-500">
+                <Loader2 size={14} className="animate-spin" />
+                {message.sources.length > 0 ? `Reading ${message.sources.length} ${message.sources.length === 1 ? 'file' : 'files'}...` : 'Searching your files...'}
+              </p>
+            )}
+            {message.sources.length > 0 && <SourceList sources={message.sources} onOpenSource={onOpenSource} />}
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); send(draft); }}
+        className="p-3 border-t border-gray-100 flex items-end gap-2"
+      >
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send(draft);
+            }
+          }}
+          rows={2}
+          placeholder="Ask about your files..."
+          className="flex-1 resize-none px-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-gemini-500/20 focus:border-gemini-500"
+        />
+        <button type="submit" disabled={isBusy || !draft.trim()} className="p-2.5 rounded-xl bg-gemini-600 text-white hover:bg-gemini-700 disabled:opacity-50" title="Send">
+          {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+        </button>
+      </form>
+    </aside>
+  );
+};
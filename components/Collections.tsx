@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Sparkles, Plus, MoreVertical, Edit2, Trash2, RefreshCw, Layers, Loader2 } from 'lucide-react';
+import { AutoAlbum, SavedSearch } from '../types';
+import { Modal, Button, Input } from './UI';
+
+// --- Rows ---
+interface RowAction {
+  label: string;
+  icon: React.ReactNode;
+  onClick: () => void;
+  danger?: boolean;
+}
+
+// An inline name field, used both for saving the current view and for renaming
+const NameForm: React.FC<{ initial: string; placeholder?: string; onSubmit: (name: string) => void; onCancel: () => void }> = ({ initial, placeholder, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial);
+  const submit = () => {
+    if (name.trim()) onSubmit(name.trim());
+    else onCancel();
+  };
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="px-2 py-1">
+      <input
+        autoFocus
+        value={name}
+        placeholder={placeholder}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={submit}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+        className="w-full px-2 py-1 text-sm border border-gemini-500 rounded-md outline-none ring-2 ring-gemini-500/20"
+      />
+    </form>
+  );
+};
+
+const CollectionRow: React.FC<{
+  icon: React.ReactNode;
+  name: string;
+  count?: number; // undefined while still being counted
+  title?: string;
+  isActive: boolean;
+  onSelect: () => void;
+  actions: RowAction[];
+}> = ({ icon, name, count, title, isActive, onSelect, actions }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+  return (
+    <div className="relative group">
+      <button
+        onClick={onSelect}
+        title={title}
+        className={`w-full flex items-center gap-2 pl-3 pr-8 py-1.5 rounded-lg text-sm text-left transition-colors ${isActive ? 'bg-gemini-50 text-gemini-700 font-medium' : 'text-gray-700 hover:bg-gray-100'}`}
+      >
+        <span className="flex-shrink-0 text-gray-400">{icon}</span>
+        <span className="flex-1 truncate">{name}</span>
+        <span className="text-xs text-gray-400">{count ?? <Loader2 size={10} className="animate-spin" />}</span>
+      </button>
+      <button
+        onClick={() => setIsMenuOpen(open => !open)}
+        className={`absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 ${isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+        title="Options"
+      >
+        <MoreVertical size={14} />
+      </button>
+      {isMenuOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-52 bg-white border border-gray-200 rounded-lg shadow-lg p-1" onMouseLeave={() => setIsMenuOpen(false)}>
+          {actions.map(action => (
+            <button
+              key={action.label}
+              onClick={() => { setIsMenuOpen(false); action.onClick(); }}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded text-sm ${action.danger ? 'text-red-600 hover:bg-red-50' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              {action.icon} {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Sidebar ---
+interface CollectionListProps {
+  searches: SavedSearch[];
+  albums: AutoAlbum[];
+  searchCounts: Record<string, number>;
+  albumCounts: Record<string, number>;
+  // Files not yet checked against each album's current rule
+  uncheckedCounts: Record<string, number>;
+  activeSearchId: string | null;
+  activeAlbumId: string | null;
+  onSaveSearch: (name: string) => void;
+  onSelectSearch: (saved: SavedSearch) => void;
+  onRenameSearch: (saved: SavedSearch, name: string) => void;
+  onDeleteSearch: (saved: SavedSearch) => void;
+  onNewAlbum: () => void;
+  onSelectAlbum: (album: AutoAlbum) => void;
+  onEditAlbum: (album: AutoAlbum) => void;
+  onScanAlbum: (album: AutoAlbum) => void;
+  onDeleteAlbum: (album: AutoAlbum) => void;
+}
+
+const SectionHeading: React.FC<{ icon: React.ReactNode; label: string; actionTitle: string; onAction: () => void }> = ({ icon, label, actionTitle, onAction }) => (
+  <h2 className="flex items-center gap-2 px-3 py-2 text-xs font-semibold uppercase tracking-wider text-gray-500">
+    {icon} <span className="flex-1">{label}</span>
+    <button onClick={onAction} className="p-0.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100" title={actionTitle}>
+      <Plus size={14} />
+    </button>
+  </h2>
+);
+
+// Saved searches and auto-albums, each with a live count of the files it holds
+export const CollectionList: React.FC<CollectionListProps> = ({
+  searches, albums, searchCounts, albumCounts, uncheckedCounts, activeSearchId, activeAlbumId,
+  onSaveSearch, onSelectSearch, onRenameSearch, onDeleteSearch, onNewAlbum, onSelectAlbum, onEditAlbum, onScanAlbum, onDeleteAlbum
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  return (
+    <>
+      <section>
+        <SectionHeading icon={<Bookmark size={14} />} label="Saved Searches" actionTitle="Save the current view" onAction={() => setIsSaving(true)} />
+        <div className="space-y-0.5">
+          {searches.map(saved => renamingId === saved.id ? (
+            <NameForm
+              key={saved.id}
+              initial={saved.name}
+              onSubmit={(name) => { onRenameSearch(saved, name); setRenamingId(null); }}
+              onCancel={() => setRenamingId(null)}
+            />
+          ) : (
+            <CollectionRow
+              key={saved.id}
+              icon={<Bookmark size={14} />}
+              name={saved.name}
+              count={searchCounts[saved.id]}
+              title={saved.filter.search || undefined}
+              isActive={saved.id === activeSearchId}
+              onSelect={() => onSelectSearch(saved)}
+              actions={[
+                { label: 'Rename', icon: <Edit2 size={14} />, onClick: () => setRenamingId(saved.id) },
+                { label: 'Delete', icon: <Trash2 size={14} />, onClick: () => onDeleteSearch(saved), danger: true }
+              ]}
+            />
+          ))}
+          {isSaving && (
+            <NameForm
+              initial=""
+              placeholder="Name this view"
+              onSubmit={(name) => { onSaveSearch(name); setIsSaving(false); }}
+              onCancel={() => setIsSaving(false)}
+            />
+          )}
+          {searches.length === 0 && !isSaving && <p className="px-3 text-sm text-gray-400 italic">Save a search or filter to find it here.</p>}
+        </div>
+      </section>
+
+      <section>
+        <SectionHeading icon={<Sparkles size={14} />} label="Auto-Albums" actionTitle="New auto-album" onAction={onNewAlbum} />
+        <div className="space-y-0.5">
+          {albums.map(album => (
+            <CollectionRow
+              key={album.id}
+              icon={<Layers size={14} />}
+              name={album.name}
+              count={albumCounts[album.id] ?? 0}
+              title={album.rule}
+              isActive={album.id === activeAlbumId}
+              onSelect={() => onSelectAlbum(album)}
+              actions={[
+                { label: 'Edit', icon: <Edit2 size={14} />, onClick: () => onEditAlbum(album) },
+                ...(uncheckedCounts[album.id] > 0
+                  ? [{ label: `Check ${uncheckedCounts[album.id]} existing files`, icon: <RefreshCw size={14} />, onClick: () => onScanAlbum(album) }]
+                  : []),
+                { label: 'Delete', icon: <Trash2 size={14} />, onClick: () => onDeleteAlbum(album), danger: true }
+              ]}
+            />
+          ))}
+          {albums.length === 0 && <p className="px-3 text-sm text-gray-400 italic">Describe an album and Gemini fills it with matching uploads.</p>}
+        </div>
+      </section>
+    </>
+  );
+};
+
+// --- Album Modal ---
+interface AlbumModalProps {
+  isOpen: boolean;
+  album: AutoAlbum | null; // null creates a new album
+  onClose: () => void;
+  onSave: (name: string, rule: string) => void;
+}
+
+export const AlbumModal: React.FC<AlbumModalProps> = ({ isOpen, album, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [rule, setRule] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(album?.name || '');
+    setRule(album?.rule || '');
+  }, [isOpen, album]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={album ? 'Edit Auto-Album' : 'New Auto-Album'}>
+      <form className="p-6 space-y-4" onSubmit={(e) => { e.preventDefault(); if (name.trim() && rule.trim()) onSave(name.trim(), rule.trim()); }}>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <Input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="Code screenshots" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Which files belong in it?</label>
+          <textarea
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-gemini-500/20 focus:border-gemini-500 min-h-[80px] resize-none"
+            value={rule}
+            onChange={(e) => setRule(e.target.value)}
+            placeholder="Screenshots of code"
+          />
+          <p className="mt-1 text-xs text-gray-500">Gemini checks each new upload against this once it has been analyzed.</p>
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button type="submit" disabled={!name.trim() || !rule.trim()}>{album ? 'Save' : 'Create'}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, Copy, Images, Folder, Loader2 } from 'lucide-react';
+import { DriveFolder } from '../types';
+import { Modal, Button } from './UI';
+import { formatBytes, formatDate, getFileIcon } from './FileComponents';
+import { DuplicateGroup, suggestKeeper } from '../services/duplicates';
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  groups: DuplicateGroup[];
+  // Older files still being hashed; their duplicates appear as they finish
+  checkingCount: number;
+  folders: DriveFolder[];
+  previewUrls: Record<string, string>;
+  onClose: () => void;
+  onDelete: (ids: string[]) => void;
+}
+
+// Null keeps every file in the group
+type Keepers = Record<string, string | null>;
+
+// Lists copies and look-alikes so one of each can be kept and the rest trashed together
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ isOpen, groups, checkingCount, folders, previewUrls, onClose, onDelete }) => {
+  const [keepers, setKeepers] = useState<Keepers>({});
+
+  // Groups found since the modal opened start with the suggested copy kept
+  useEffect(() => {
+    if (!isOpen) return;
+    setKeepers(prev => Object.fromEntries(groups.map(group => [
+      group.key,
+      group.key in prev && (prev[group.key] === null || group.files.some(f => f.id === prev[group.key])) ? prev[group.key] : suggestKeeper(group).id
+    ])));
+  }, [isOpen, groups]);
+
+  const toDelete = groups.flatMap(group => {
+    const keeper = keepers[group.key];
+    return keeper ? group.files.filter(f => f.id !== keeper) : [];
+  });
+  const freedBytes = toDelete.reduce((sum, f) => sum + f.size, 0);
+
+  const folderName = (parentId?: string | null) => folders.find(f => f.id === parentId)?.name || 'My Drive';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Duplicates" maxWidth="max-w-3xl">
+      {checkingCount > 0 && (
+        <p className="flex items-center gap-2 px-6 pt-4 text-sm text-gray-500">
+          <Loader2 size={14} className="animate-spin" /> Checking {checkingCount} older {checkingCount === 1 ? 'file' : 'files'} for duplicates…
+        </p>
+      )}
+      {groups.length === 0 ? (
+        checkingCount === 0 && <p className="p-10 text-center text-gray-500">No duplicates found.</p>
+      ) : (
+        <div className="p-6 space-y-6">
+          {groups.map(group => (
+            <div key={group.key} className="border border-gray-200 rounded-xl overflow-hidden">
+              <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm">
+                <span className="flex items-center gap-2 font-medium text-gray-700">
+                  {group.kind === 'exact' ? <><Copy size={14} /> Identical copies</> : <><Images size={14} /> Similar images</>}
+                </span>
+                <label className="flex items-center gap-2 text-gray-500">
+                  <input
+                    type="radio"
+                    checked={keepers[group.key] === null}
+                    onChange={() => setKeepers(prev => ({ ...prev, [group.key]: null }))}
+                    className="text-gemini-600"
+                  />
+                  Keep all
+                </label>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {group.files.map(file => {
+                  const isKept = keepers[group.key] === file.id || keepers[group.key] === null;
+                  return (
+                    <label key={file.id} className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${isKept ? '' : 'bg-red-50/50'}`}>
+                      <input
+                        type="radio"
+                        checked={keepers[group.key] === file.id}
+                        onChange={() => setKeepers(prev => ({ ...prev, [group.key]: file.id }))}
+                        className="text-gemini-600"
+                      />
+                      <div className="w-12 h-12 flex-shrink-0 rounded-lg bg-gray-100 overflow-hidden flex items-center justify-center">
+                        {file.type === 'image' && previewUrls[file.id]
+                          ? <img src={previewUrls[file.id]} alt={file.name} className="w-full h-full object-cover" />
+                          : getFileIcon(file.type, 20)}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm truncate ${isKept ? 'text-gray-800' : 'text-gray-400 line-through'}`}>{file.name}</p>
+                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                          <Folder size={10} /> {folderName(file.parentId)} • {formatDate(file.uploadDate)} • {formatBytes(file.size)}
+                        </p>
+                      </div>
+                      {keepers[group.key] === file.id && <span className="text-xs font-medium text-green-600">Keep</span>}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between">
+        <span className="text-sm text-gray-500">
+          {toDelete.length > 0 ? `${toDelete.length} ${toDelete.length === 1 ? 'file' : 'files'} (${formatBytes(freedBytes)}) will be moved to the trash` : 'Nothing selected to delete'}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+          <Button variant="danger" onClick={() => onDelete(toDelete.map(f => f.id))} disabled={toDelete.length === 0}>
+            <Trash2 size={16} /> Move {toDelete.length > 0 ? toDelete.length : ''} to Trash
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { DocumentKind, DriveFile } from '../types';
+import { Modal, Button } from './UI';
+import { buildExtractionCsv, DOCUMENT_KINDS, DOCUMENT_KIND_LABELS, filesWithExtraction } from '../services/extraction';
+import { downloadBlob } from '../services/fileUtils';
+
+interface ExtractionExportModalProps {
+  isOpen: boolean;
+  files: DriveFile[];
+  // The files the current folder, search and filters show
+  visibleFiles: DriveFile[];
+  onClose: () => void;
+}
+
+type ExportScope = 'all' | 'visible';
+
+export const ExtractionExportModal: React.FC<ExtractionExportModalProps> = ({ isOpen, files, visibleFiles, onClose }) => {
+  const [kinds, setKinds] = useState<DocumentKind[]>(['invoice', 'receipt']);
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [lineItems, setLineItems] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setScope('all');
+  }, [isOpen]);
+
+  const matching = filesWithExtraction(scope === 'all' ? files : visibleFiles, kinds);
+
+  const toggleKind = (kind: DocumentKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+
+  const handleExport = () => {
+    // The byte order mark makes Excel read the file as UTF-8
+    const csv = '\uFEFF' + buildExtractionCsv(matching, { lineItems });
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `document-data-${new Date().toISOString().slice(0, 10)}.csv`);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Document Data">
+      <div className="p-6 space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Document types</label>
+          <div className="grid grid-cols-2 gap-2">
+            {DOCUMENT_KINDS.map(kind => (
+              <label key={kind} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} className="rounded text-gemini-600" />
+                {DOCUMENT_KIND_LABELS[kind]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Files</label>
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} className="text-gemini-600" />
+              Everything in my drive
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="radio" checked={scope === 'visible'} onChange={() => setScope('visible')} className="text-gemini-600" />
+              Only the files currently shown
+            </label>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={lineItems} onChange={(e) => setLineItems(e.target.checked)} className="rounded text-gemini-600" />
+          One row per line item
+        </label>
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between">
+        <span className="text-sm text-gray-500">{matching.length} {matching.length === 1 ? 'document' : 'documents'}</span>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleExport} disabled={matching.length === 0}>
+            <Download size={16} /> Export CSV
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
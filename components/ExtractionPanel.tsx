@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { ScanLine, Edit2, Plus, Trash2, RotateCw, AlertTriangle } from 'lucide-react';
+import { ContactDetails, DocumentKind, DriveFile, ExtractedData, LineItem } from '../types';
+import {
+  DOCUMENT_KINDS, DOCUMENT_KIND_LABELS, emptyExtractedData, isExtractionActive, normalizeExtractedData
+} from '../services/extraction';
+
+interface ExtractionPanelProps {
+  file: DriveFile;
+  onSave: (kind: DocumentKind, data: ExtractedData) => void;
+  onRerun: () => void;
+}
+
+const DOCUMENT_FIELDS: { key: 'vendor' | 'date' | 'documentNumber' | 'currency'; label: string }[] = [
+  { key: 'vendor', label: 'Vendor' },
+  { key: 'date', label: 'Date' },
+  { key: 'documentNumber', label: 'Number' },
+  { key: 'currency', label: 'Currency' }
+];
+
+const AMOUNT_FIELDS: { key: 'subtotal' | 'tax' | 'total'; label: string }[] = [
+  { key: 'subtotal', label: 'Subtotal' },
+  { key: 'tax', label: 'Tax' },
+  { key: 'total', label: 'Total' }
+];
+
+const CONTACT_FIELDS: { key: keyof ContactDetails; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'company', label: 'Company' },
+  { key: 'jobTitle', label: 'Job title' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'website', label: 'Website' }
+];
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-gemini-500';
+const linkClass = 'text-xs flex items-center gap-1 text-gemini-400 hover:text-gemini-300';
+
+// Falls back to a plain number when the currency code isn't one Intl knows
+const formatAmount = (value: number, currency?: string) => {
+  try {
+    if (currency) return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+  } catch {
+    // unknown currency code
+  }
+  return value.toLocaleString('en-US');
+};
+
+const parseAmount = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const FieldRow: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex gap-3 text-sm">
+    <span className="w-20 flex-shrink-0 text-gray-500">{label}</span>
+    <span className="text-gray-300 break-words min-w-0">{value}</span>
+  </div>
+);
+
+const ExtractedDataView: React.FC<{ data: ExtractedData }> = ({ data }) => {
+  const documentRows = DOCUMENT_FIELDS.filter(({ key }) => data[key]);
+  const amountRows = AMOUNT_FIELDS.filter(({ key }) => data[key] !== undefined);
+  const contactRows = CONTACT_FIELDS.filter(({ key }) => data.contact[key]);
+
+  if (documentRows.length + amountRows.length + contactRows.length + data.lineItems.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Nothing could be read from this document.</p>;
+  }
+  return (
+    <div className="space-y-3">
+      {documentRows.map(({ key, label }) => <FieldRow key={key} label={label} value={data[key]} />)}
+      {data.lineItems.length > 0 && (
+        <table className="w-full text-xs text-gray-300">
+          <tbody>
+            {data.lineItems.map((item, index) => (
+              <tr key={index} className="border-t border-gray-700/60">
+                <td className="py-1 pr-2">{item.quantity !== undefined && <span className="text-gray-500">{item.quantity} × </span>}{item.description}</td>
+                <td className="py-1 text-right whitespace-nowrap">{item.amount !== undefined && formatAmount(item.amount, data.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {amountRows.map(({ key, label }) => <FieldRow key={key} label={label} value={formatAmount(data[key]!, data.currency)} />)}
+      {contactRows.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-gray-700/60">
+          {contactRows.map(({ key, label }) => <FieldRow key={key} label={label} value={data.contact[key]} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ExtractedDataForm: React.FC<{
+  kind: DocumentKind;
+  data: ExtractedData;
+  onCancel: () => void;
+  onSave: (kind: DocumentKind, data: ExtractedData) => void;
+}> = ({ kind: initialKind, data, onCancel, onSave }) => {
+  const [kind, setKind] = useState(initialKind);
+  const [draft, setDraft] = useState(data);
+
+  const updateLineItem = (index: number, updates: Partial<LineItem>) =>
+    setDraft(prev => ({ ...prev, lineItems: prev.lineItems.map((item, i) => i === index ? { ...item, ...updates } : item) }));
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(kind, normalizeExtractedData(draft));
+      }}
+    >
+      <select value={kind} onChange={(e) => setKind(e.target.value as DocumentKind)} className={inputClass}>
+        {DOCUMENT_KINDS.map(k => <option key={k} value={k}>{DOCUMENT_KIND_LABELS[k]}</option>)}
+      </select>
+      {DOCUMENT_FIELDS.map(({ key, label }) => (
+        <input
+          key={key}
+          type={key === 'date' ? 'date' : 'text'}
+          value={draft[key] || ''}
+          onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+          placeholder={label}
+          title={label}
+          className={inputClass}
+        />
+      ))}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">Line items</span>
+          <button type="button" onClick={() => setDraft(prev => ({ ...prev, lineItems: [...prev.lineItems, { description: '' }] }))} className={linkClass}>
+            <Plus size={12} /> Add
+          </button>
+        </div>
+        {draft.lineItems.map((item, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <input value={item.description} onChange={(e) => updateLineItem(index, { description: e.target.value })} placeholder="Item" className={inputClass} />
+            <input type="number" step="any" value={item.quantity ?? ''} onChange={(e) => updateLineItem(index, { quantity: parseAmount(e.target.value) })} placeholder="Qty" title="Quantity" className={`${inputClass} !w-14`} />
+            <input type="number" step="any" value={item.amount ?? ''} onChange={(e) => updateLineItem(index, { amount: parseAmount(e.target.value) })} placeholder="Amount" title="Amount" className={`${inputClass} !w-20`} />
+            <button
+              type="button"
+              onClick={() => setDraft(prev => ({ ...prev, lineItems: prev.lineItems.filter((_, i) => i !== index) }))}
+              className="p-1 text-gray-500 hover:text-red-400 flex-shrink-0"
+              title="Remove item"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {AMOUNT_FIELDS.map(({ key, label }) => (
+          <input
+            key={key}
+            type="number"
+            step="any"
+            value={draft[key] ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, [key]: parseAmount(e.target.value) }))}
+            placeholder={label}
+            title={label}
+            className={inputClass}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-1 pt-2 border-t border-gray-700/60">
+        {CONTACT_FIELDS.map(({ key, label }) => (
+          <input
+            key={key}
+            value={draft.contact[key] || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, contact: { ...prev.contact, [key]: e.target.value } }))}
+            placeholder={label}
+            title={label}
+            className={inputClass}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={onCancel} className="px-3 py-1 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+        <button type="submit" className="px-3 py-1 rounded text-sm bg-gemini-600 text-white hover:bg-gemini-700">Save</button>
+      </div>
+    </form>
+  );
+};
+
+// Document data pulled from receipts, invoices and cards, shown in the viewer sidebar
+export const ExtractionPanel: React.FC<ExtractionPanelProps> = ({ file, onSave, onRerun }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const extraction = file.extraction;
+
+  useEffect(() => setIsEditing(false), [file.id]);
+
+  const renderBody = () => {
+    if (isEditing) {
+      return (
+        <ExtractedDataForm
+          kind={extraction?.kind || 'receipt'}
+          data={extraction?.data || emptyExtractedData()}
+          onCancel={() => setIsEditing(false)}
+          onSave={(kind, data) => {
+            onSave(kind, data);
+            setIsEditing(false);
+          }}
+        />
+      );
+    }
+    if (isExtractionActive(file)) {
+      return (
+        <div className="animate-pulse flex space-x-2">
+          <div className="h-2 bg-gray-700 rounded w-full"></div>
+        </div>
+      );
+    }
+    if (!extraction) {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">This file hasn't been checked for receipts, invoices or cards.</p>
+          <button onClick={onRerun} className={linkClass}><ScanLine size={12} /> Extract data</button>
+        </div>
+      );
+    }
+    if (extraction.status === 'failed' || (extraction.status === 'skipped' && extraction.error)) {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-400 leading-relaxed flex items-start gap-2">
+            <AlertTriangle size={14} className="mt-0.5 flex-shrink-0 text-amber-400" />
+            {extraction.status === 'failed' ? `Extraction failed: ${extraction.error}` : `Not extracted: ${extraction.error}`}
+          </p>
+          {extraction.status === 'failed' && <button onClick={onRerun} className={linkClass}><RotateCw size={12} /> Retry</button>}
+        </div>
+      );
+    }
+    if (extraction.status === 'skipped' || !extraction.data) {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">No receipt, invoice or card detected.</p>
+          <div className="flex gap-3">
+            <button onClick={() => setIsEditing(true)} className={linkClass}><Edit2 size={12} /> Enter manually</button>
+            <button onClick={onRerun} className={linkClass}><RotateCw size={12} /> Check again</button>
+          </div>
+        </div>
+      );
+    }
+    return <ExtractedDataView data={extraction.data} />;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+          <ScanLine size={16} /> {extraction?.kind ? DOCUMENT_KIND_LABELS[extraction.kind] : 'Document Data'}
+          {extraction?.editedAt && <span className="text-[10px] font-normal text-gray-500">(edited)</span>}
+        </h3>
+        {!isEditing && extraction?.status === 'done' && extraction.data && (
+          <div className="flex items-center gap-1">
+            {!extraction.editedAt && (
+              <button onClick={onRerun} className="p-1 rounded text-gray-500 hover:text-gray-300 hover:bg-gray-800" title="Extract again">
+                <RotateCw size={14} />
+              </button>
+            )}
+            <button onClick={() => setIsEditing(true)} className="p-1 rounded text-gray-500 hover:text-gray-300 hover:bg-gray-800" title="Edit">
+              <Edit2 size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,23 @@
-import React from 'react';
-import { FileText, Image as ImageIcon, File, MoreVertical, Calendar, Sparkles, Tag, Eye, Trash2, Edit2, Download, Video, Music } from 'lucide-react';
-import { DriveFile } from '../types';
+import React, { useEffect, useState } from 'react';
+import { FileText, Image as ImageIcon, File, MoreVertical, Calendar, Sparkles, Tag, Eye, Trash2, Edit2, Download, Video, Music, Loader2, AlertTriangle, RotateCw, ScanText, History, Upload, RotateCcw } from 'lucide-react';
+import { AnalysisValue, DocumentKind, DriveFile, ExtractedData, FileVersion } from '../types';
 import { Badge, Button } from './UI';
+import { DRIVE_ITEM_MIME } from '../services/folders';
+import { SearchHit } from '../services/searchIndex';
+import { isAnalysisActive } from '../services/analysisQueue';
+import { humanizeFieldKey } from '../services/analysisProfiles';
+import { downloadBlob } from '../services/fileUtils';
+import { isExtractable } from '../services/extraction';
+import { ExtractionPanel } from './ExtractionPanel';
+import { MediaPlayer } from './MediaPlayer';
+import { TextLayer } from './TextLayer';
+import { isOcrCandidate } from '../services/fileContent';
+import { fileTags, suggestedTags, TagColors } from '../services/tags';
+import { TagChip } from './Tags';
+import { currentVersionDate } from '../services/versions';
 
 // --- Helper Functions ---
-const formatBytes = (bytes: number) => {
+export const formatBytes = (bytes: number) => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
   const sizes = ['Bytes', 'KB', 'MB', 'GB'];
@@ -12,11 +25,15 @@ const formatBytes = (bytes: number) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
-const formatDate = (timestamp: number) => {
+export const formatDate = (timestamp: number) => {
   return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(timestamp));
 };
 
-const getFileIcon = (type: DriveFile['type'], size?: number) => {
+// Versions can be minutes apart, so they show the time too
+const formatDateTime = (timestamp: number) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(timestamp));
+
+export const getFileIcon = (type: DriveFile['type'], size?: number) => {
   const props = size ? { size } : {};
   switch (type) {
     case 'image': return <ImageIcon className="text-purple-500" {...props} />;
@@ -30,34 +47,84 @@ const getFileIcon = (type: DriveFile['type'], size?: number) => {
 
 // --- Components ---
 
+// Marks words in `text` that start with any of the given (stemmed) search terms
+export const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`((?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+  return (
+    <>
+      {text.split(pattern).map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">{part}</mark>
+        : part
+      )}
+    </>
+  );
+};
+
 interface FileCardProps {
   file: DriveFile;
+  previewUrl?: string;
+  searchHit?: SearchHit;
   onClick: () => void;
   onDelete: (e: React.MouseEvent) => void;
   onEdit: (e: React.MouseEvent) => void;
+  canReanalyze?: boolean;
+  onReanalyze: (e: React.MouseEvent) => void;
+  tagColors: TagColors;
+  onTagClick: (tag: string) => void;
+  isSelected: boolean;
+  // While anything is selected, clicking a card selects it instead of opening it
+  isSelecting: boolean;
+  onSelect: (range: boolean) => void;
 }
 
-export const FileCard: React.FC<FileCardProps> = ({ file, onClick, onDelete, onEdit }) => {
+const CARD_TAG_LIMIT = 3;
+
+export const FileCard: React.FC<FileCardProps> = ({
+  file, previewUrl, searchHit, onClick, onDelete, onEdit, canReanalyze, onReanalyze, tagColors, onTagClick, isSelected, isSelecting, onSelect
+}) => {
+  const tags = fileTags(file);
+  const suggested = suggestedTags(file);
   return (
     <div 
-      className="group bg-white rounded-xl border border-gray-200 hover:border-gemini-400 hover:shadow-lg transition-all duration-200 cursor-pointer overflow-hidden flex flex-col h-full"
-      onClick={onClick}
+      className={`group bg-white rounded-xl border hover:shadow-lg transition-all duration-200 cursor-pointer overflow-hidden flex flex-col h-full ${isSelected ? 'border-gemini-500 ring-2 ring-gemini-500/30' : 'border-gray-200 hover:border-gemini-400'}`}
+      onClick={(e) => {
+        if (isSelecting || e.shiftKey || e.metaKey || e.ctrlKey) onSelect(e.shiftKey);
+        else onClick();
+      }}
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData(DRIVE_ITEM_MIME, JSON.stringify({ kind: 'file', id: file.id }))}
     >
       {/* Preview Area */}
       <div className="h-40 bg-gray-50 relative overflow-hidden flex items-center justify-center">
-        {file.type === 'image' ? (
-          <img src={file.data} alt={file.name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" />
+        {file.type === 'image' && previewUrl ? (
+          <img src={previewUrl} alt={file.name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" />
         ) : (
            <div className="bg-gray-100 rounded-full p-6 group-hover:bg-gray-200 transition-colors">
              {getFileIcon(file.type, 48)}
            </div>
         )}
         
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          onClick={(e) => { e.stopPropagation(); onSelect(e.shiftKey); }}
+          className={`absolute top-2 left-2 z-10 w-5 h-5 rounded text-gemini-600 cursor-pointer transition-opacity ${isSelected || isSelecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title="Select"
+        />
+
         {/* Overlay Actions */}
         <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 backdrop-blur-[1px]">
           <button onClick={onEdit} className="p-2 bg-white rounded-full text-gray-700 hover:text-gemini-600 hover:scale-110 transition-all" title="Edit Details">
             <Edit2 size={16} />
           </button>
+          {canReanalyze && (
+            <button onClick={onReanalyze} className="p-2 bg-white rounded-full text-gray-700 hover:text-gemini-600 hover:scale-110 transition-all" title="Re-run analysis">
+              <RotateCw size={16} />
+            </button>
+          )}
           <button onClick={onDelete} className="p-2 bg-white rounded-full text-gray-700 hover:text-red-600 hover:scale-110 transition-all" title="Delete">
             <Trash2 size={16} />
           </button>
@@ -68,28 +135,45 @@ export const FileCard: React.FC<FileCardProps> = ({ file, onClick, onDelete, onE
       <div className="p-4 flex flex-col flex-1">
         <div className="flex items-start justify-between mb-2">
           <div className="flex-1 min-w-0">
-            <h3 className="font-semibold text-gray-800 truncate" title={file.name}>{file.name}</h3>
+            <h3 className="font-semibold text-gray-800 truncate" title={file.name}>
+              <HighlightedText text={file.name} terms={searchHit?.highlights || []} />
+            </h3>
             <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
               <Calendar size={12} /> {formatDate(file.uploadDate)} • {formatBytes(file.size)}
             </p>
           </div>
         </div>
 
+        {searchHit?.snippet && (
+          <p className="text-xs text-gray-500 mb-2 line-clamp-2 leading-relaxed">
+            <HighlightedText text={searchHit.snippet} terms={searchHit.highlights} />
+          </p>
+        )}
+
         {/* AI Summary/Tags Snippet */}
         <div className="mt-auto pt-3 border-t border-gray-100">
-           {file.aiData?.isAnalyzing ? (
+           {isAnalysisActive(file) ? (
              <div className="flex items-center gap-2 text-xs text-gemini-600 animate-pulse">
-               <Sparkles size={12} /> Analyzing content...
+               <Sparkles size={12} /> {file.aiData?.status === 'running' ? 'Analyzing content...' : 'Waiting to analyze...'}
+             </div>
+           ) : file.aiData?.status === 'failed' ? (
+             <div className="flex items-center justify-between gap-2 text-xs">
+               <span className="flex items-center gap-1 text-red-600 min-w-0" title={file.aiData.error}>
+                 <AlertTriangle size={12} className="flex-shrink-0" /> <span className="truncate">Analysis failed</span>
+               </span>
+               <button onClick={onReanalyze} className="flex items-center gap-1 text-gray-500 hover:text-gemini-600 flex-shrink-0">
+                 <RotateCw size={12} /> Retry
+               </button>
              </div>
-           ) : file.aiData?.tags && file.aiData.tags.length > 0 ? (
+           ) : tags.length > 0 ? (
              <div className="flex flex-wrap gap-1">
-               {file.aiData.tags.slice(0, 3).map(tag => (
-                 <span key={tag} className="text-[10px] px-1.5 py-0.5 bg-gemini-50 text-gemini-700 rounded-full border border-gemini-100">
-                   #{tag}
-                 </span>
+               {tags.slice(0, CARD_TAG_LIMIT).map(tag => (
+                 <TagChip key={tag} tag={tag} size="sm" color={tagColors[tag]} suggested={suggested.includes(tag)} onClick={() => onTagClick(tag)} />
                ))}
-               {file.aiData.tags.length > 3 && <span className="text-[10px] text-gray-400">+{file.aiData.tags.length - 3}</span>}
+               {tags.length > CARD_TAG_LIMIT && <span className="text-[10px] text-gray-400">+{tags.length - CARD_TAG_LIMIT}</span>}
              </div>
+           ) : file.aiData?.status === 'skipped' ? (
+             <div className="text-xs text-gray-400 italic truncate" title={file.aiData.error}>Not analyzed: {file.aiData.error}</div>
            ) : (
              <div className="text-xs text-gray-400 italic">No tags added</div>
            )}
@@ -99,21 +183,153 @@ export const FileCard: React.FC<FileCardProps> = ({ file, onClick, onDelete, onE
   );
 };
 
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Renders a profile's extra analysis field without knowing what it is
+const AnalysisValueView: React.FC<{ value: AnalysisValue }> = ({ value }) => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <span className="text-gray-500 text-sm">None</span>;
+    return (
+      <div className="flex flex-wrap gap-2">
+        {value.map((item, i) => (
+          <span key={i} className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-gray-800 text-gray-300 text-xs border border-gray-700">
+            {HEX_COLOR.test(item) && <span className="w-3 h-3 rounded-full border border-gray-600" style={{ backgroundColor: item }} />}
+            {item}
+          </span>
+        ))}
+      </div>
+    );
+  }
+  if (typeof value === 'boolean') return <p className="text-sm text-gray-300">{value ? 'Yes' : 'No'}</p>;
+  if (typeof value === 'number') return <p className="text-sm text-gray-300">{value.toLocaleString()}</p>;
+  return (
+    <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar">
+      {value || <span className="text-gray-500 italic">Empty</span>}
+    </p>
+  );
+};
+
+// Current and earlier uploads of the file; any earlier one can be downloaded or made current again
+const VersionHistory: React.FC<{
+  file: DriveFile;
+  progress: number | null; // set while a new version is being written
+  onUpload: (upload: File) => void;
+  onDownload: (version: FileVersion) => void;
+  onRestore: (version: FileVersion) => void;
+}> = ({ file, progress, onUpload, onDownload, onRestore }) => {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const earlier = [...(file.versions || [])].reverse();
+  const isBusy = progress !== null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+          <History size={16} /> Versions
+        </h3>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isBusy}
+          className="text-xs flex items-center gap-1 text-gemini-400 hover:text-gemini-300 disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+          {isBusy ? `Uploading ${Math.round(progress * 100)}%` : 'Upload new version'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const upload = e.target.files?.[0];
+            e.target.value = '';
+            if (upload) onUpload(upload);
+          }}
+        />
+      </div>
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 divide-y divide-gray-700/60">
+        <div className="px-4 py-2 text-sm">
+          <p className="text-gray-300">Current <span className="text-gray-500">• {formatBytes(file.size)}</span></p>
+          <p className="text-xs text-gray-500">{formatDateTime(currentVersionDate(file))}</p>
+        </div>
+        {earlier.map(version => (
+          <div key={version.id} className="flex items-center gap-2 px-4 py-2 text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-400">{formatDateTime(version.uploadedAt)}</p>
+              <p className="text-xs text-gray-500">{formatBytes(version.size)}</p>
+            </div>
+            <button onClick={() => onDownload(version)} className="p-1 rounded text-gray-500 hover:text-gray-300 hover:bg-gray-800" title="Download this version">
+              <Download size={14} />
+            </button>
+            <button onClick={() => onRestore(version)} disabled={isBusy} className="p-1 rounded text-gray-500 hover:text-gray-300 hover:bg-gray-800 disabled:opacity-50" title="Make this the current version">
+              <RotateCcw size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 interface FileViewerProps {
   file: DriveFile | null;
+  loadBlob: (id: string) => Promise<Blob | null>;
   onClose: () => void;
+  onSaveExtraction: (kind: DocumentKind, data: ExtractedData) => void;
+  onRerunExtraction: () => void;
+  onRetranscribe: () => void;
+  onRereadText: () => void;
+  tagColors: TagColors;
+  onTagClick: (tag: string) => void;
+  onAcceptTag: (tag: string) => void;
+  onRejectTag: (tag: string) => void;
+  versionProgress: number | null;
+  onUploadVersion: (upload: File) => void;
+  onDownloadVersion: (version: FileVersion) => void;
+  onRestoreVersion: (version: FileVersion) => void;
 }
 
-export const FileViewer: React.FC<FileViewerProps> = ({ file, onClose }) => {
+export const FileViewer: React.FC<FileViewerProps> = ({
+  file, loadBlob, onClose, onSaveExtraction, onRerunExtraction, onRetranscribe, onRereadText, tagColors, onTagClick, onAcceptTag, onRejectTag,
+  versionProgress, onUploadVersion, onDownloadVersion, onRestoreVersion
+}) => {
+  const [blobUrl, setBlobUrl] = useState<string | null>(null);
+  const [textContent, setTextContent] = useState<string | null>(null);
+  const [showText, setShowText] = useState(false);
+
+  useEffect(() => setShowText(false), [file?.id]);
+
+  // Load file bytes from storage and expose them as an object URL for previewing;
+  // a new version reloads them
+  useEffect(() => {
+    if (!file || file.type === 'other') return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    loadBlob(file.id).then(async (loaded) => {
+      if (cancelled || !loaded) return;
+      url = URL.createObjectURL(loaded);
+      setBlobUrl(url);
+      if (file.type === 'text') setTextContent(await loaded.text());
+    }).catch(err => console.error("Failed to load file contents", err));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setBlobUrl(null);
+      setTextContent(null);
+    };
+  }, [file?.id, file?.updatedAt, loadBlob]);
+
   if (!file) return null;
 
-  const handleDownload = () => {
-    const link = document.createElement('a');
-    link.href = file.data;
-    link.download = file.name;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Reassembles the stored chunks into a fresh Blob for saving
+  const handleDownload = async () => {
+    const blob = await loadBlob(file.id);
+    if (!blob) {
+      alert("This file's contents could not be found.");
+      return;
+    }
+    downloadBlob(blob, file.name);
   };
 
   return (
@@ -130,6 +346,16 @@ export const FileViewer: React.FC<FileViewerProps> = ({ file, onClose }) => {
           </div>
         </div>
         <div className="flex items-center gap-2">
+           {isOcrCandidate(file) && (
+             <Button
+               variant="secondary"
+               onClick={() => setShowText(prev => !prev)}
+               className={`!text-white !border-white/20 ${showText ? '!bg-white/25' : '!bg-white/10 hover:!bg-white/20'}`}
+               title="Show the text found in this file"
+             >
+               <ScanText size={18} /> Text
+             </Button>
+           )}
            <Button variant="secondary" onClick={handleDownload} className="!bg-white/10 !text-white !border-white/20 hover:!bg-white/20">
              <Download size={18} /> Download
            </Button>
@@ -139,23 +365,21 @@ export const FileViewer: React.FC<FileViewerProps> = ({ file, onClose }) => {
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Preview */}
-        <div className="flex-1 flex items-center justify-center p-8 overflow-auto bg-black/50">
-          {file.type === 'image' ? (
-            <img src={file.data} alt={file.name} className="max-w-full max-h-full object-contain shadow-2xl rounded-lg" />
+        <div className="relative flex-1 flex items-center justify-center p-8 overflow-auto bg-black/50">
+          {!blobUrl && file.type !== 'other' ? (
+            <Loader2 size={40} className="text-gray-500 animate-spin" />
+          ) : file.type === 'image' ? (
+            <img src={blobUrl} alt={file.name} className="max-w-full max-h-full object-contain shadow-2xl rounded-lg" />
           ) : file.type === 'pdf' ? (
-             <iframe src={file.data} className="w-full h-full rounded-lg bg-white" title="PDF Viewer" />
-          ) : file.type === 'video' ? (
-             <video src={file.data} controls className="max-w-full max-h-full rounded-lg shadow-2xl" />
-          ) : file.type === 'audio' ? (
-             <div className="flex flex-col items-center justify-center p-12 bg-gray-800 rounded-2xl shadow-xl border border-gray-700">
-                <Music size={64} className="text-cyan-400 mb-6 animate-pulse" />
-                <audio src={file.data} controls className="w-80" />
-             </div>
+             <iframe src={blobUrl} className="w-full h-full rounded-lg bg-white" title="PDF Viewer" />
+          ) : (file.type === 'video' || file.type === 'audio') && blobUrl ? (
+             <MediaPlayer file={file} src={blobUrl} onRetranscribe={onRetranscribe} />
           ) : (
             <div className="bg-white p-8 rounded-lg shadow-xl max-w-2xl w-full max-h-full overflow-auto whitespace-pre-wrap font-mono text-sm">
-                {file.type === 'text' ? atob(file.data.split(',')[1]) : "Preview not available for this file type."}
+                {file.type === 'text' ? textContent : "Preview not available for this file type."}
             </div>
           )}
+          {showText && <TextLayer file={file} onRerun={onRereadText} />}
         </div>
 
         {/* Sidebar Info */}
@@ -167,10 +391,15 @@ export const FileViewer: React.FC<FileViewerProps> = ({ file, onClose }) => {
               <Sparkles size={16} /> AI Summary
             </h3>
             <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
-              {file.aiData?.isAnalyzing ? (
+              {isAnalysisActive(file) ? (
                  <div className="animate-pulse flex space-x-2">
                    <div className="h-2 bg-gray-700 rounded w-full"></div>
                  </div>
+              ) : file.aiData?.status === 'failed' || file.aiData?.status === 'skipped' ? (
+                <p className="text-sm text-gray-400 leading-relaxed flex items-start gap-2">
+                  <AlertTriangle size={14} className="mt-0.5 flex-shrink-0 text-amber-400" />
+                  {file.aiData.status === 'failed' ? `Analysis failed: ${file.aiData.error}` : `Not analyzed: ${file.aiData.error}`}
+                </p>
               ) : (
                 <p className="text-sm text-gray-300 leading-relaxed">
                   {file.aiData?.summary || "No summary available."}
@@ -185,14 +414,48 @@ export const FileViewer: React.FC<FileViewerProps> = ({ file, onClose }) => {
               <Tag size={16} /> Tags
             </h3>
             <div className="flex flex-wrap gap-2">
-               {file.aiData?.tags?.map(tag => (
-                 <span key={tag} className="px-2.5 py-1 rounded-full bg-gray-800 text-gray-300 text-xs border border-gray-700">
-                   {tag}
-                 </span>
-               )) || <span className="text-gray-500 text-sm">No tags</span>}
+               {(file.tags || []).map(tag => (
+                 <TagChip key={tag} tag={tag} dark color={tagColors[tag]} onClick={() => onTagClick(tag)} />
+               ))}
+               {suggestedTags(file).map(tag => (
+                 <TagChip
+                   key={tag}
+                   tag={tag}
+                   dark
+                   suggested
+                   color={tagColors[tag]}
+                   onClick={() => onTagClick(tag)}
+                   onAccept={() => onAcceptTag(tag)}
+                   onRemove={() => onRejectTag(tag)}
+                 />
+               ))}
+               {fileTags(file).length === 0 && <span className="text-gray-500 text-sm">No tags</span>}
             </div>
           </div>
 
+          {/* Profile-specific Fields */}
+          {Object.entries(file.aiData?.extra || {}).map(([key, value]) => (
+            <div key={key} className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+                <Sparkles size={16} /> {humanizeFieldKey(key)}
+              </h3>
+              <AnalysisValueView value={value} />
+            </div>
+          ))}
+
+          {/* Receipts, Invoices and Cards */}
+          {isExtractable(file) && (
+            <ExtractionPanel file={file} onSave={onSaveExtraction} onRerun={onRerunExtraction} />
+          )}
+
+          <VersionHistory
+            file={file}
+            progress={versionProgress}
+            onUpload={onUploadVersion}
+            onDownload={onDownloadVersion}
+            onRestore={onRestoreVersion}
+          />
+
           {/* User Notes */}
           <div className="space-y-3">
             <h3 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, Edit2, Trash2, Sparkles, RotateCw } from 'lucide-react';
+import { DriveFile } from '../types';
+import { formatBytes, formatDate, getFileIcon } from './FileComponents';
+import { DRIVE_ITEM_MIME } from '../services/folders';
+import { fileTags } from '../services/tags';
+import { isAnalysisActive } from '../services/analysisQueue';
+import { isAllSelected } from '../services/selection';
+
+export type TableColumn = 'name' | 'type' | 'size' | 'uploadDate' | 'tags' | 'status';
+
+export type ColumnWidths = Record<TableColumn, number>;
+
+export const DEFAULT_COLUMN_WIDTHS: ColumnWidths = {
+  name: 320,
+  type: 100,
+  size: 110,
+  uploadDate: 140,
+  tags: 90,
+  status: 130
+};
+
+const MIN_COLUMN_WIDTH = 60;
+
+const COLUMNS: { key: TableColumn; label: string; align?: 'right' }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'type', label: 'Type' },
+  { key: 'size', label: 'Size', align: 'right' },
+  { key: 'uploadDate', label: 'Uploaded' },
+  { key: 'tags', label: 'Tags', align: 'right' },
+  { key: 'status', label: 'Analysis' }
+];
+
+const ANALYSIS_LABELS: Record<NonNullable<DriveFile['aiData']>['status'], string> = {
+  pending: 'Waiting',
+  running: 'Analyzing',
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Skipped'
+};
+
+const getAnalysisLabel = (file: DriveFile) => file.aiData ? ANALYSIS_LABELS[file.aiData.status] : 'Not analyzed';
+
+const compareBy = (column: TableColumn) => (a: DriveFile, b: DriveFile): number => {
+  switch (column) {
+    case 'name': return a.name.localeCompare(b.name, undefined, { numeric: true });
+    case 'type': return a.type.localeCompare(b.type);
+    case 'size': return a.size - b.size;
+    case 'uploadDate': return a.uploadDate - b.uploadDate;
+    case 'tags': return fileTags(a).length - fileTags(b).length;
+    case 'status': return getAnalysisLabel(a).localeCompare(getAnalysisLabel(b));
+  }
+};
+
+interface FileTableProps {
+  files: DriveFile[];
+  columnWidths: ColumnWidths;
+  onColumnWidthsChange: (widths: ColumnWidths) => void;
+  onOpen: (file: DriveFile) => void;
+  onEdit: (e: React.MouseEvent, file: DriveFile) => void;
+  onDelete: (e: React.MouseEvent | React.KeyboardEvent, file: DriveFile) => void;
+  canReanalyze: (file: DriveFile) => boolean;
+  onReanalyze: (e: React.MouseEvent, file: DriveFile) => void;
+  selectedIds: Set<string>;
+  // `order` is the rows' current order, which column sorting can change
+  onSelect: (file: DriveFile, range: boolean, order: string[]) => void;
+  onSelectAll: (ids: string[]) => void;
+}
+
+// Width of the leading checkbox column
+const SELECT_COLUMN_WIDTH = 40;
+
+export const FileTable: React.FC<FileTableProps> = ({
+  files, columnWidths, onColumnWidthsChange, onOpen, onEdit, onDelete, canReanalyze, onReanalyze, selectedIds, onSelect, onSelectAll
+}) => {
+  // Without a column sort the rows keep the toolbar's ordering
+  const [sortColumn, setSortColumn] = useState<TableColumn | null>(null);
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [widths, setWidths] = useState(columnWidths);
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  useEffect(() => setWidths(columnWidths), [columnWidths]);
+
+  const rows = useMemo(() => {
+    if (!sortColumn) return files;
+    const sorted = [...files].sort(compareBy(sortColumn));
+    return sortDirection === 'asc' ? sorted : sorted.reverse();
+  }, [files, sortColumn, sortDirection]);
+
+  useEffect(() => {
+    if (activeIndex >= rows.length) setActiveIndex(Math.max(0, rows.length - 1));
+  }, [rows.length, activeIndex]);
+
+  // asc -> desc -> unsorted
+  const handleSort = (column: TableColumn) => {
+    if (sortColumn !== column) {
+      setSortColumn(column);
+      setSortDirection('asc');
+    } else if (sortDirection === 'asc') {
+      setSortDirection('desc');
+    } else {
+      setSortColumn(null);
+    }
+  };
+
+  const startResize = (e: React.MouseEvent, column: TableColumn) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widths[column];
+    let latest = widths;
+
+    const handleMove = (event: MouseEvent) => {
+      latest = { ...latest, [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX) };
+      setWidths(latest);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      onColumnWidthsChange(latest);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const focusRow = (index: number) => {
+    const next = Math.min(Math.max(index, 0), rows.length - 1);
+    setActiveIndex(next);
+    rowRefs.current[next]?.focus();
+  };
+
+  const rowIds = rows.map(f => f.id);
+  const isSelecting = selectedIds.size > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const file = rows[index];
+    switch (e.key) {
+      case 'ArrowDown': e.preventDefault(); focusRow(index + 1); break;
+      case 'ArrowUp': e.preventDefault(); focusRow(index - 1); break;
+      case 'Home': e.preventDefault(); focusRow(0); break;
+      case 'End': e.preventDefault(); focusRow(rows.length - 1); break;
+      case 'Enter': e.preventDefault(); onOpen(file); break;
+      case 'Delete': e.preventDefault(); onDelete(e, file); break;
+      case ' ': e.preventDefault(); onSelect(file, e.shiftKey, rowIds); break;
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+      <table className="w-full text-sm table-fixed border-collapse" style={{ minWidth: Object.values<number>(widths).reduce((a, b) => a + b, 110 + SELECT_COLUMN_WIDTH) }}>
+        <colgroup>
+          <col style={{ width: SELECT_COLUMN_WIDTH }} />
+          {COLUMNS.map(column => <col key={column.key} style={{ width: widths[column.key] }} />)}
+          <col style={{ width: 110 }} />
+        </colgroup>
+        <thead className="bg-gray-50 text-xs uppercase tracking-wider text-gray-500">
+          <tr>
+            <th className="px-3 py-2 border-b border-gray-200">
+              <input
+                type="checkbox"
+                checked={isAllSelected(selectedIds, rowIds)}
+                onChange={() => onSelectAll(rowIds)}
+                className="rounded text-gemini-600 cursor-pointer"
+                title="Select all"
+              />
+            </th>
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                onClick={() => handleSort(column.key)}
+                aria-sort={sortColumn === column.key ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+                className={`relative px-3 py-2 font-medium select-none cursor-pointer hover:text-gray-800 border-b border-gray-200 ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+              >
+                <span className="inline-flex items-center gap-1">
+                  {column.label}
+                  {sortColumn === column.key && (sortDirection === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                </span>
+                <span
+                  onMouseDown={(e) => startResize(e, column.key)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-gemini-500/40"
+                />
+              </th>
+            ))}
+            <th className="border-b border-gray-200" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((file, index) => (
+            <tr
+              key={file.id}
+              ref={(el) => { rowRefs.current[index] = el; }}
+              tabIndex={index === activeIndex ? 0 : -1}
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData(DRIVE_ITEM_MIME, JSON.stringify({ kind: 'file', id: file.id }))}
+              onFocus={() => setActiveIndex(index)}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              onClick={(e) => {
+                if (isSelecting || e.shiftKey || e.metaKey || e.ctrlKey) onSelect(file, e.shiftKey, rowIds);
+                else onOpen(file);
+              }}
+              aria-selected={selectedIds.has(file.id)}
+              className={`group border-b border-gray-100 last:border-0 cursor-pointer focus:outline-none ${selectedIds.has(file.id) ? 'bg-gemini-50/70' : 'hover:bg-gray-50 focus:bg-gemini-50'}`}
+            >
+              <td className="px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(file.id)}
+                  readOnly
+                  onClick={(e) => { e.stopPropagation(); onSelect(file, e.shiftKey, rowIds); }}
+                  className="rounded text-gemini-600 cursor-pointer"
+                />
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="flex-shrink-0">{getFileIcon(file.type, 16)}</span>
+                  <span className="truncate font-medium text-gray-800" title={file.name}>{file.name}</span>
+                </div>
+              </td>
+              <td className="px-3 py-2 text-gray-500 capitalize truncate">{file.type}</td>
+              <td className="px-3 py-2 text-gray-500 text-right truncate">{formatBytes(file.size)}</td>
+              <td className="px-3 py-2 text-gray-500 truncate">{formatDate(file.uploadDate)}</td>
+              <td className="px-3 py-2 text-gray-500 text-right">{fileTags(file).length}</td>
+              <td className="px-3 py-2 truncate">
+                {isAnalysisActive(file) ? (
+                  <span className="inline-flex items-center gap-1 text-gemini-600 animate-pulse"><Sparkles size={12} /> {getAnalysisLabel(file)}</span>
+                ) : (
+                  <span className={file.aiData?.status === 'failed' ? 'text-red-600' : 'text-gray-500'} title={file.aiData?.error}>{getAnalysisLabel(file)}</span>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+                  <button onClick={(e) => onEdit(e, file)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gemini-600" title="Edit Details">
+                    <Edit2 size={14} />
+                  </button>
+                  {canReanalyze(file) && (
+                    <button onClick={(e) => onReanalyze(e, file)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gemini-600" title="Re-run analysis">
+                      <RotateCw size={14} />
+                    </button>
+                  )}
+                  <button onClick={(e) => onDelete(e, file)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-red-600" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Folder, ChevronRight, Home, Edit2, Trash2, Download } from 'lucide-react';
+import { DriveFolder } from '../types';
+import { DRIVE_ITEM_MIME, DraggedItem, isInternalDrag, readDraggedItem } from '../services/folders';
+
+// Shared drop-target behaviour for anything files/folders can be dragged onto
+const useDropTarget = (onDropItem: (item: DraggedItem) => void) => {
+  const [isOver, setIsOver] = useState(false);
+
+  return {
+    isOver,
+    handlers: {
+      onDragOver: (e: React.DragEvent) => {
+        if (!isInternalDrag(e.dataTransfer)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        setIsOver(true);
+      },
+      onDragLeave: () => setIsOver(false),
+      onDrop: (e: React.DragEvent) => {
+        const item = readDraggedItem(e.dataTransfer);
+        setIsOver(false);
+        if (!item) return;
+        e.preventDefault();
+        e.stopPropagation();
+        onDropItem(item);
+      }
+    }
+  };
+};
+
+interface FolderCardProps {
+  folder: DriveFolder;
+  itemCount: number;
+  onOpen: () => void;
+  onRename: (e: React.MouseEvent) => void;
+  onDownload: (e: React.MouseEvent) => void;
+  onDelete: (e: React.MouseEvent) => void;
+  onDropItem: (item: DraggedItem) => void;
+}
+
+export const FolderCard: React.FC<FolderCardProps> = ({ folder, itemCount, onOpen, onRename, onDownload, onDelete, onDropItem }) => {
+  const { isOver, handlers } = useDropTarget(onDropItem);
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData(DRIVE_ITEM_MIME, JSON.stringify({ kind: 'folder', id: folder.id }))}
+      onClick={onOpen}
+      {...handlers}
+      className={`group flex items-center gap-3 px-4 py-3 bg-white rounded-xl border cursor-pointer transition-all ${isOver ? 'border-gemini-500 bg-gemini-50 shadow-md' : 'border-gray-200 hover:border-gemini-400 hover:shadow-sm'}`}
+    >
+      <Folder size={20} className="text-gemini-500 fill-gemini-100 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <h3 className="font-medium text-gray-800 truncate text-sm" title={folder.name}>{folder.name}</h3>
+        <p className="text-xs text-gray-400">{itemCount} {itemCount === 1 ? 'item' : 'items'}</p>
+      </div>
+      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button onClick={onRename} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gemini-600" title="Rename">
+          <Edit2 size={14} />
+        </button>
+        <button onClick={onDownload} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gemini-600" title="Download as ZIP">
+          <Download size={14} />
+        </button>
+        <button onClick={onDelete} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-red-600" title="Delete">
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface BreadcrumbItemProps {
+  label: React.ReactNode;
+  isCurrent: boolean;
+  onClick: () => void;
+  onDropItem: (item: DraggedItem) => void;
+}
+
+const BreadcrumbItem: React.FC<BreadcrumbItemProps> = ({ label, isCurrent, onClick, onDropItem }) => {
+  const { isOver, handlers } = useDropTarget(onDropItem);
+
+  return (
+    <button
+      onClick={onClick}
+      {...handlers}
+      className={`px-2 py-1 rounded-lg flex items-center gap-1.5 transition-colors truncate max-w-[12rem] ${isOver ? 'bg-gemini-100 text-gemini-700' : isCurrent ? 'font-semibold text-gray-900' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-800'}`}
+    >
+      {label}
+    </button>
+  );
+};
+
+interface BreadcrumbsProps {
+  path: DriveFolder[];
+  onNavigate: (folderId: string | null) => void;
+  onDropItem: (item: DraggedItem, folderId: string | null) => void;
+}
+
+export const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ path, onNavigate, onDropItem }) => (
+  <nav className="flex items-center gap-1 text-sm overflow-x-auto no-scrollbar">
+    <BreadcrumbItem
+      label={<><Home size={14} /> My Drive</>}
+      isCurrent={path.length === 0}
+      onClick={() => onNavigate(null)}
+      onDropItem={(item) => onDropItem(item, null)}
+    />
+    {path.map((folder, index) => (
+      <React.Fragment key={folder.id}>
+        <ChevronRight size={14} className="text-gray-300 flex-shrink-0" />
+        <BreadcrumbItem
+          label={folder.name}
+          isCurrent={index === path.length - 1}
+          onClick={() => onNavigate(folder.id)}
+          onDropItem={(item) => onDropItem(item, folder.id)}
+        />
+      </React.Fragment>
+    ))}
+  </nav>
+);
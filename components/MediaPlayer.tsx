@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Music, Download, Loader2, AlertTriangle, RotateCw, Captions } from 'lucide-react';
+import { DriveFile } from '../types';
+import {
+  findActiveSegment, formatTimestamp, isTranscriptionActive, subtitleFileName, SubtitleFormat, toSubtitles, toVtt
+} from '../services/transcripts';
+import { downloadBlob } from '../services/fileUtils';
+
+interface MediaPlayerProps {
+  file: DriveFile;
+  src: string;
+  onRetranscribe: () => void;
+}
+
+const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt'
+};
+
+// Audio/video player with a transcript pane that follows playback and seeks on click
+export const MediaPlayer: React.FC<MediaPlayerProps> = ({ file, src, onRetranscribe }) => {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+
+  const transcript = file.transcript;
+  // Earlier segments stay visible while a re-run is in progress
+  const segments = transcript?.segments || [];
+  const activeIndex = findActiveSegment(segments, currentTime);
+
+  useEffect(() => {
+    if (activeIndex === -1) return;
+    listRef.current?.querySelector(`[data-segment="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  // Videos also get the transcript as a captions track
+  useEffect(() => {
+    if (file.type !== 'video' || segments.length === 0) return;
+    const url = URL.createObjectURL(new Blob([toVtt(segments)], { type: SUBTITLE_MIME_TYPES.vtt }));
+    setCaptionsUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setCaptionsUrl(null);
+    };
+  }, [file.type, segments]);
+
+  const seek = (time: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = time;
+    media.play().catch(() => { /* autoplay may be blocked; the position still moves */ });
+  };
+
+  const handleExport = (format: SubtitleFormat) => {
+    downloadBlob(new Blob([toSubtitles(segments, format)], { type: SUBTITLE_MIME_TYPES[format] }), subtitleFileName(file.name, format));
+  };
+
+  const renderStatus = () => {
+    if (isTranscriptionActive(file)) {
+      return <p className="flex items-center gap-2 text-sm text-gray-400"><Loader2 size={14} className="animate-spin" /> Transcribing...</p>;
+    }
+    if (!transcript) {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">This file hasn't been transcribed yet.</p>
+          <button onClick={onRetranscribe} className="text-xs flex items-center gap-1 text-gemini-400 hover:text-gemini-300">
+            <Captions size={12} /> Transcribe
+          </button>
+        </div>
+      );
+    }
+    if (transcript.status === 'failed' || transcript.status === 'skipped') {
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-400 leading-relaxed flex items-start gap-2">
+            <AlertTriangle size={14} className="mt-0.5 flex-shrink-0 text-amber-400" />
+            {transcript.status === 'failed' ? `Transcription failed: ${transcript.error}` : `Not transcribed: ${transcript.error}`}
+          </p>
+          {transcript.status === 'failed' && (
+            <button onClick={onRetranscribe} className="text-xs flex items-center gap-1 text-gemini-400 hover:text-gemini-300">
+              <RotateCw size={12} /> Retry
+            </button>
+          )}
+        </div>
+      );
+    }
+    return <p className="text-sm text-gray-500">No speech was detected.</p>;
+  };
+
+  return (
+    <div className="w-full h-full flex gap-6 items-stretch">
+      <div className="flex-1 flex items-center justify-center min-w-0">
+        {file.type === 'video' ? (
+          <video ref={mediaRef} src={src} controls onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)} className="max-w-full max-h-full rounded-lg shadow-2xl">
+            {captionsUrl && <track kind="subtitles" src={captionsUrl} srcLang={transcript?.language || 'en'} label="Transcript" />}
+          </video>
+        ) : (
+          <div className="flex flex-col items-center justify-center p-12 bg-gray-800 rounded-2xl shadow-xl border border-gray-700">
+            <Music size={64} className="text-cyan-400 mb-6 animate-pulse" />
+            <audio ref={mediaRef} src={src} controls onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)} className="w-80" />
+          </div>
+        )}
+      </div>
+
+      <div className="w-80 flex-shrink-0 flex flex-col bg-gray-900/80 border border-gray-800 rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h3 className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+            <Captions size={16} /> Transcript
+            {isTranscriptionActive(file) && segments.length > 0 && <Loader2 size={12} className="animate-spin text-gray-500" />}
+          </h3>
+          <div className="flex items-center gap-1">
+            {segments.length > 0 && (['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-400 hover:text-white hover:bg-white/10"
+                title={`Download as ${format.toUpperCase()} subtitles`}
+              >
+                <Download size={12} /> {format.toUpperCase()}
+              </button>
+            ))}
+            {transcript?.status === 'done' && (
+              <button onClick={onRetranscribe} className="p-1 rounded text-gray-500 hover:text-white hover:bg-white/10" title="Transcribe again">
+                <RotateCw size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+          {segments.length === 0 || transcript?.status === 'failed' || transcript?.status === 'skipped' ? (
+            <div className="p-2">{renderStatus()}</div>
+          ) : (
+            segments.map((segment, index) => (
+              <button
+                key={index}
+                data-segment={index}
+                onClick={() => seek(segment.start)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${index === activeIndex ? 'bg-gemini-500/20 text-white' : 'text-gray-300 hover:bg-white/5'}`}
+              >
+                <span className="block text-xs font-mono text-gemini-400 mb-0.5">
+                  {formatTimestamp(segment.start)}{segment.speaker && <span className="font-sans text-gray-500"> · {segment.speaker}</span>}
+                </span>
+                {segment.text}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
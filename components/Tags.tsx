@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Check, X, Tag as TagIcon, MoreVertical, Edit2, Trash2 } from 'lucide-react';
+import { DriveFile } from '../types';
+import {
+  TagColor, TagColors, TagCount, TagState, TAG_COLORS, TAG_COLOR_CLASSES, addTag, removeTag, suggestedTags, normalizeTag
+} from '../services/tags';
+
+// --- Chip ---
+interface TagChipProps {
+  tag: string;
+  color?: TagColor;
+  suggested?: boolean;
+  dark?: boolean;      // for the viewer's dark sidebar
+  size?: 'sm' | 'md';
+  onClick?: () => void;
+  onAccept?: () => void;
+  onRemove?: () => void;
+}
+
+const stop = (handler: () => void) => (e: React.MouseEvent) => {
+  e.stopPropagation();
+  handler();
+};
+
+export const TagChip: React.FC<TagChipProps> = ({ tag, color, suggested, dark, size = 'md', onClick, onAccept, onRemove }) => {
+  const palette = dark
+    ? suggested ? 'bg-transparent text-gray-400 border-gray-600 border-dashed' : 'bg-gray-800 text-gray-300 border-gray-700'
+    : suggested ? 'bg-white text-gray-500 border-gray-300 border-dashed' : color ? TAG_COLOR_CLASSES[color].chip : 'bg-gemini-50 text-gemini-700 border-gemini-100';
+  const sizing = size === 'sm' ? 'text-[10px] px-1.5 py-0.5 gap-0.5' : 'text-xs px-2.5 py-1 gap-1';
+  const iconSize = size === 'sm' ? 10 : 12;
+
+  return (
+    <span className={`inline-flex items-center rounded-full border ${palette} ${sizing}`} title={suggested ? 'Suggested by Gemini' : undefined}>
+      {dark && color && <span className={`w-1.5 h-1.5 rounded-full ${TAG_COLOR_CLASSES[color].dot}`} />}
+      {onClick ? (
+        <button onClick={stop(onClick)} className="hover:underline">#{tag}</button>
+      ) : (
+        <span>#{tag}</span>
+      )}
+      {onAccept && (
+        <button onClick={stop(onAccept)} className="rounded-full hover:text-green-600" title="Accept suggestion">
+          <Check size={iconSize} />
+        </button>
+      )}
+      {onRemove && (
+        <button onClick={stop(onRemove)} className="rounded-full hover:text-red-500" title={suggested ? 'Reject suggestion' : 'Remove tag'}>
+          <X size={iconSize} />
+        </button>
+      )}
+    </span>
+  );
+};
+
+// --- Editor ---
+interface TagEditorProps {
+  file: DriveFile;
+  state: TagState;
+  colors: TagColors;
+  knownTags: string[];
+  onChange: (state: TagState) => void;
+}
+
+// Edits a draft of a file's tags; suggestions can be accepted or rejected here too
+export const TagEditor: React.FC<TagEditorProps> = ({ file, state, colors, knownTags, onChange }) => {
+  const [input, setInput] = useState('');
+  const suggestions = suggestedTags({ ...file, ...state });
+
+  const commit = () => {
+    if (normalizeTag(input)) onChange(addTag(state, input));
+    setInput('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 border border-gray-200 rounded-lg focus-within:ring-2 focus-within:ring-gemini-500/20 focus-within:border-gemini-500">
+        {state.tags.map(tag => (
+          <TagChip key={tag} tag={tag} color={colors[tag]} onRemove={() => onChange(removeTag(state, tag, file))} />
+        ))}
+        <input
+          value={input}
+          list="known-tags"
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              commit();
+            } else if (e.key === 'Backspace' && !input && state.tags.length > 0) {
+              onChange(removeTag(state, state.tags[state.tags.length - 1], file));
+            }
+          }}
+          onBlur={commit}
+          placeholder={state.tags.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[6rem] py-0.5 text-sm outline-none"
+        />
+        <datalist id="known-tags">
+          {knownTags.filter(tag => !state.tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-gray-500">Suggested:</span>
+          {suggestions.map(tag => (
+            <TagChip
+              key={tag}
+              tag={tag}
+              suggested
+              onAccept={() => onChange(addTag(state, tag))}
+              onRemove={() => onChange(removeTag(state, tag, file))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Sidebar ---
+interface TagListProps {
+  counts: TagCount[];
+  colors: TagColors;
+  activeTags: string[];
+  onSelect: (tag: string) => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (tag: string) => void;
+  onColorChange: (tag: string, color: TagColor | null) => void;
+}
+
+const TagRow: React.FC<{
+  entry: TagCount;
+  color?: TagColor;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (to: string) => void;
+  onDelete: () => void;
+  onColorChange: (color: TagColor | null) => void;
+}> = ({ entry, color, isActive, onSelect, onRename, onDelete, onColorChange }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [draftName, setDraftName] = useState<string | null>(null);
+
+  if (draftName !== null) {
+    const submit = () => {
+      const name = normalizeTag(draftName);
+      if (name && name !== entry.tag) onRename(name);
+      setDraftName(null);
+    };
+    return (
+      <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="px-2 py-1">
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={submit}
+          onKeyDown={(e) => e.key === 'Escape' && setDraftName(null)}
+          className="w-full px-2 py-1 text-sm border border-gemini-500 rounded-md outline-none ring-2 ring-gemini-500/20"
+        />
+      </form>
+    );
+  }
+
+  return (
+    <div className="relative group">
+      <button
+        onClick={onSelect}
+        className={`w-full flex items-center gap-2 pl-3 pr-8 py-1.5 rounded-lg text-sm text-left transition-colors ${isActive ? 'bg-gemini-50 text-gemini-700 font-medium' : 'text-gray-700 hover:bg-gray-100'}`}
+      >
+        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${color ? TAG_COLOR_CLASSES[color].dot : 'bg-gray-300'}`} />
+        <span className="flex-1 truncate">{entry.tag}</span>
+        <span className="text-xs text-gray-400">{entry.count}</span>
+      </button>
+      <button
+        onClick={() => setIsMenuOpen(open => !open)}
+        className={`absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 ${isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+        title="Tag options"
+      >
+        <MoreVertical size={14} />
+      </button>
+      {isMenuOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-48 bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-2" onMouseLeave={() => setIsMenuOpen(false)}>
+          <div className="flex flex-wrap gap-1.5">
+            {TAG_COLORS.map(option => (
+              <button
+                key={option}
+                onClick={() => onColorChange(option === color ? null : option)}
+                className={`w-5 h-5 rounded-full ${TAG_COLOR_CLASSES[option].dot} ${option === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                title={option === color ? 'Remove color' : option}
+              />
+            ))}
+          </div>
+          <button onClick={() => { setIsMenuOpen(false); setDraftName(entry.tag); }} className="w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-100">
+            <Edit2 size={14} /> Rename or merge
+          </button>
+          <button onClick={() => { setIsMenuOpen(false); onDelete(); }} className="w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-red-600 hover:bg-red-50">
+            <Trash2 size={14} /> Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Every tag in the drive with how many files carry it; clicking one filters by it
+export const TagList: React.FC<TagListProps> = ({ counts, colors, activeTags, onSelect, onRename, onDelete, onColorChange }) => (
+  <section>
+    <h2 className="flex items-center gap-2 px-3 py-2 text-xs font-semibold uppercase tracking-wider text-gray-500">
+      <TagIcon size={14} /> Tags
+    </h2>
+    {counts.length === 0 ? (
+      <p className="px-3 text-sm text-gray-400 italic">No tags yet.</p>
+    ) : (
+      <div className="space-y-0.5">
+        {counts.map(entry => (
+          <TagRow
+            key={entry.tag}
+            entry={entry}
+            color={colors[entry.tag]}
+            isActive={activeTags.includes(entry.tag)}
+            onSelect={() => onSelect(entry.tag)}
+            onRename={(to) => onRename(entry.tag, to)}
+            onDelete={() => onDelete(entry.tag)}
+            onColorChange={(color) => onColorChange(entry.tag, color)}
+          />
+        ))}
+      </div>
+    )}
+  </section>
+);
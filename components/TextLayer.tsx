@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Copy, Check, Loader2, AlertTriangle, RotateCw } from 'lucide-react';
+import { DriveFile } from '../types';
+import { isContentActive } from '../services/fileContent';
+
+interface TextLayerProps {
+  file: DriveFile;
+  onRerun: () => void;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+// The text read from an image or PDF, laid over the preview so it can be selected and copied
+export const TextLayer: React.FC<TextLayerProps> = ({ file, onRerun }) => {
+  const [copied, setCopied] = useState(false);
+  const content = file.content;
+
+  const handleCopy = async () => {
+    if (!content?.text) return;
+    try {
+      await navigator.clipboard.writeText(content.text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    } catch (err) {
+      console.error("Failed to copy text", err);
+      alert("Couldn't copy to the clipboard. Select the text and copy it instead.");
+    }
+  };
+
+  const renderBody = () => {
+    if (isContentActive(file) && !content?.text) {
+      return <p className="flex items-center gap-2 text-gray-400"><Loader2 size={16} className="animate-spin" /> Reading text...</p>;
+    }
+    if (!content) {
+      return (
+        <div className="space-y-3 text-gray-400">
+          <p>The text in this file hasn't been read yet.</p>
+          <button onClick={onRerun} className="text-sm flex items-center gap-1 text-gemini-400 hover:text-gemini-300"><RotateCw size={14} /> Read text</button>
+        </div>
+      );
+    }
+    if (content.status === 'failed' || content.status === 'skipped') {
+      return (
+        <div className="space-y-3">
+          <p className="text-gray-400 flex items-start gap-2">
+            <AlertTriangle size={16} className="mt-0.5 flex-shrink-0 text-amber-400" />
+            {content.status === 'failed' ? `Reading text failed: ${content.error}` : `Text not read: ${content.error}`}
+          </p>
+          {content.status === 'failed' && (
+            <button onClick={onRerun} className="text-sm flex items-center gap-1 text-gemini-400 hover:text-gemini-300"><RotateCw size={14} /> Retry</button>
+          )}
+        </div>
+      );
+    }
+    if (!content.text) return <p className="text-gray-400">No text was found in this file.</p>;
+    return (
+      <>
+        <p className="whitespace-pre-wrap select-text leading-relaxed text-gray-100 selection:bg-gemini-500/40">{content.text}</p>
+        {content.truncated && <p className="mt-4 text-xs text-gray-500 italic">Only the beginning of this file's text is kept.</p>}
+      </>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/85 backdrop-blur-sm flex flex-col animate-in fade-in duration-150">
+      <div className="flex items-center justify-end gap-1 px-8 pt-4">
+        {content?.status === 'done' && content.text && (
+          <button onClick={handleCopy} className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-300 hover:text-white hover:bg-white/10">
+            {copied ? <Check size={14} /> : <Copy size={14} />} {copied ? 'Copied' : 'Copy text'}
+          </button>
+        )}
+        {content?.status === 'done' && (
+          <button onClick={onRerun} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10" title="Read text again">
+            <RotateCw size={14} />
+          </button>
+        )}
+      </div>
+      <div className="flex-1 overflow-auto custom-scrollbar px-8 pb-8 pt-2 font-mono text-sm">
+        <div className="max-w-3xl mx-auto">{renderBody()}</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { RotateCcw, Trash2, Folder } from 'lucide-react';
+import { DriveFile, DriveFolder } from '../types';
+import { Modal, Button, Select } from './UI';
+import { formatBytes, formatDate, getFileIcon } from './FileComponents';
+import { RETENTION_OPTIONS, daysUntilPurge } from '../services/trash';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  files: DriveFile[];
+  folders: DriveFolder[];
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (file: DriveFile) => void;
+  onDeleteForever: (files: DriveFile[]) => void;
+  onClose: () => void;
+}
+
+// Deleted files, most recent first, until they are restored or purged
+export const TrashModal: React.FC<TrashModalProps> = ({ isOpen, files, folders, retentionDays, onRetentionChange, onRestore, onDeleteForever, onClose }) => {
+  const sorted = [...files].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+  const folderName = (parentId?: string | null) => folders.find(f => f.id === parentId)?.name || 'My Drive';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Trash" maxWidth="max-w-2xl">
+      {sorted.length === 0 ? (
+        <p className="p-10 text-center text-gray-500">The trash is empty.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {sorted.map(file => {
+            const daysLeft = daysUntilPurge(file, retentionDays);
+            return (
+              <div key={file.id} className="flex items-center gap-3 px-6 py-3">
+                <div className="w-10 h-10 flex-shrink-0 rounded-lg bg-gray-100 flex items-center justify-center">
+                  {getFileIcon(file.type, 18)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 truncate">{file.name}</p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <Folder size={10} /> {folderName(file.parentId)} • {formatBytes(file.size)} • Deleted {formatDate(file.deletedAt || 0)}
+                  </p>
+                </div>
+                <span className="text-xs text-gray-400 whitespace-nowrap">
+                  {daysLeft <= 1 ? 'Deleted within a day' : `Deleted in ${daysLeft} days`}
+                </span>
+                <button onClick={() => onRestore(file)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gemini-600" title="Restore">
+                  <RotateCcw size={16} />
+                </button>
+                <button onClick={() => onDeleteForever([file])} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-red-600" title="Delete forever">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Keep deleted files for
+          <Select value={retentionDays} onChange={(e) => onRetentionChange(Number(e.target.value))}>
+            {RETENTION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </Select>
+        </label>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+          <Button variant="danger" onClick={() => onDeleteForever(sorted)} disabled={sorted.length === 0}>
+            <Trash2 size={16} /> Empty Trash
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -57,6 +57,13 @@ export const Input: React.FC<React.InputHTMLAttributes<HTMLInputElement>> = (pro
   />
 );
 
+export const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement>> = (props) => (
+  <select 
+    {...props}
+    className={`px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-gemini-500/20 focus:border-gemini-500 transition-all cursor-pointer ${props.className}`}
+  />
+);
+
 export const Badge: React.FC<{ children: React.ReactNode; color?: 'blue' | 'gray' | 'purple' }> = ({ children, color = 'gray' }) => {
   const colors = {
     blue: "bg-blue-50 text-blue-700 border-blue-100",
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, X, RotateCw, CheckCircle, AlertTriangle, Loader2, Ban, PauseCircle, Trash2 } from 'lucide-react';
+import { QueuedUpload } from '../services/uploadQueue';
+import { UploadSession } from '../services/chunkedUpload';
+
+interface UploadTrayProps {
+  uploads: QueuedUpload[];
+  interrupted: UploadSession[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onResume: (session: UploadSession) => void;
+  onDiscard: (session: UploadSession) => void;
+  onClearFinished: () => void;
+}
+
+const StatusIcon: React.FC<{ upload: QueuedUpload }> = ({ upload }) => {
+  switch (upload.status) {
+    case 'done': return <CheckCircle size={16} className="text-green-500" />;
+    case 'failed': return <AlertTriangle size={16} className="text-red-500" />;
+    case 'cancelled': return <Ban size={16} className="text-gray-400" />;
+    case 'uploading': return <Loader2 size={16} className="text-gemini-600 animate-spin" />;
+    default: return <Loader2 size={16} className="text-gray-300" />;
+  }
+};
+
+export const UploadTray: React.FC<UploadTrayProps> = ({ uploads, interrupted, onCancel, onRetry, onResume, onDiscard, onClearFinished }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  if (uploads.length === 0 && interrupted.length === 0) return null;
+
+  const active = uploads.filter(u => u.status === 'checking' || u.status === 'queued' || u.status === 'uploading').length;
+  const failed = uploads.filter(u => u.status === 'failed').length;
+  const title = active > 0
+    ? `Uploading ${active} ${active === 1 ? 'item' : 'items'}`
+    : failed > 0 ? `${failed} ${failed === 1 ? 'upload' : 'uploads'} failed`
+    : interrupted.length > 0 ? `${interrupted.length} paused ${interrupted.length === 1 ? 'upload' : 'uploads'}`
+    : 'Uploads complete';
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 max-w-[calc(100vw-2rem)] bg-white rounded-2xl shadow-2xl border border-gray-200 overflow-hidden animate-in slide-in-from-bottom-2 duration-200">
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-900 text-white">
+        <h3 className="text-sm font-semibold">{title}</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setIsCollapsed(c => !c)} className="p-1 hover:bg-white/10 rounded-full" title={isCollapsed ? 'Expand' : 'Collapse'}>
+            {isCollapsed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+          {active === 0 && (
+            <button onClick={onClearFinished} className="p-1 hover:bg-white/10 rounded-full" title="Close">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <ul className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-gray-100">
+          {interrupted.map(session => (
+            <li key={session.fileId} className="px-4 py-2.5 flex items-center gap-3">
+              <PauseCircle size={16} className="text-amber-500" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-800 truncate" title={session.name}>{session.name}</p>
+                <p className="text-xs text-gray-400">Interrupted. Select the file again to resume.</p>
+              </div>
+              <button onClick={() => onResume(session)} className="p-1 text-gray-400 hover:text-gemini-600 rounded-full hover:bg-gray-100" title="Resume">
+                <RotateCw size={14} />
+              </button>
+              <button onClick={() => onDiscard(session)} className="p-1 text-gray-400 hover:text-red-600 rounded-full hover:bg-gray-100" title="Discard">
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+          {uploads.map(upload => (
+            <li key={upload.id} className="px-4 py-2.5 flex items-center gap-3">
+              <StatusIcon upload={upload} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-800 truncate" title={upload.file.name}>{upload.file.name}</p>
+                {upload.status === 'uploading' ? (
+                  <div className="mt-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-gemini-500 transition-all" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+                  </div>
+                ) : upload.status === 'failed' ? (
+                  <p className="text-xs text-red-500 truncate" title={upload.error}>{upload.error}</p>
+                ) : upload.status === 'queued' ? (
+                  <p className="text-xs text-gray-400">Waiting...</p>
+                ) : upload.status === 'checking' ? (
+                  <p className="text-xs text-gray-400">Checking for duplicates...</p>
+                ) : null}
+              </div>
+              {(upload.status === 'checking' || upload.status === 'queued' || upload.status === 'uploading') && (
+                <button onClick={() => onCancel(upload.id)} className="p-1 text-gray-400 hover:text-red-600 rounded-full hover:bg-gray-100" title="Cancel">
+                  <X size={14} />
+                </button>
+              )}
+              {(upload.status === 'failed' || upload.status === 'cancelled') && (
+                <button onClick={() => onRetry(upload.id)} className="p-1 text-gray-400 hover:text-gemini-600 rounded-full hover:bg-gray-100" title="Retry">
+                  <RotateCw size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { AnalysisProfile, AnalysisValue, AutoAlbum, DocumentKind, DriveFile, ExtractedData, TranscriptSegment } from '../types';
+import { createGeminiClient } from './gemini';
+import { createFakeAiClient } from './fakeAiClient';
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+export type ChatPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface AnalysisResult {
+  summary: string;
+  tags: string[];
+  extra: Record<string, AnalysisValue>;
+}
+
+export interface TranscriptionResult {
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+// Everything the app asks of a model. The Gemini client is used in production;
+// the fake client gives deterministic results without network access.
+export interface AiClient {
+  analysisModel: string; // used when a profile doesn't pick a model
+  embeddingModel: string;
+  // Cosine similarity above which a file counts as a semantic match; this
+  // depends on how the model spreads its vectors, so it lives with the client
+  similarityThreshold: number;
+  extractionModel: string;
+  transcriptionModel: string;
+  ocrModel: string;
+  analyze(file: DriveFile, blob: Blob, profile: AnalysisProfile): Promise<AnalysisResult>;
+  // Null when the file isn't one of the document kinds data is extracted from
+  classifyDocument(file: DriveFile, blob: Blob): Promise<DocumentKind | null>;
+  extractDocument(file: DriveFile, blob: Blob, kind: DocumentKind): Promise<ExtractedData>;
+  transcribe(file: DriveFile, blob: Blob): Promise<TranscriptionResult>;
+  // All text visible in an image or PDF, as plain text
+  readText(file: DriveFile, blob: Blob): Promise<string>;
+  // Ids of the auto-albums whose rules the file fits
+  matchAlbums(file: DriveFile, blob: Blob, albums: AutoAlbum[]): Promise<string[]>;
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
+  // Streams the model's reply to the last turn, one text fragment at a time
+  chat(turns: ChatTurn[], instructions: string): AsyncGenerator<string>;
+}
+
+export type AiClientKind = 'gemini' | 'fake';
+
+// Selected with AI_CLIENT in .env.local; defaults to Gemini
+export const aiClientKind: AiClientKind = process.env.AI_CLIENT === 'fake' ? 'fake' : 'gemini';
+
+export const createAiClient = (kind: AiClientKind = aiClientKind): AiClient => {
+  switch (kind) {
+    case 'fake': return createFakeAiClient();
+    default: return createGeminiClient();
+  }
+};
@@ -0,0 +1,109 @@
+import { AnalysisField, AnalysisProfile, AnalysisValue, FileType } from '../types';
+import { hashString } from './fileUtils';
+import { loadPreference, savePreference } from './preferences';
+
+// 'other' files are never analysed, so they have no profile
+export type AnalyzableType = Exclude<FileType, 'other'>;
+export type AnalysisProfiles = Record<AnalyzableType, AnalysisProfile>;
+
+export const ANALYZABLE_TYPES: AnalyzableType[] = ['image', 'pdf', 'text', 'audio', 'video'];
+
+export const ANALYSIS_MODELS: { value: string; label: string }[] = [
+  { value: '', label: 'Default' },
+  { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { value: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+  { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' }
+];
+
+export const MAX_TAGS = 15;
+
+// Keys the base schema already uses
+const RESERVED_KEYS = ['summary', 'tags'];
+const FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+const baseProfile = (prompt: string, fields: AnalysisField[] = []): AnalysisProfile => ({
+  prompt,
+  minTags: 3,
+  maxTags: 5,
+  model: '',
+  fields
+});
+
+export const DEFAULT_PROFILES: AnalysisProfiles = {
+  image: baseProfile(
+    'Analyze this image. Provide a concise summary (max 2 sentences) of what it shows, focusing on the visual content.',
+    [{ key: 'dominantColors', type: 'string[]', description: 'The 3-5 most dominant colors as hex codes, e.g. #1a2b3c' }]
+  ),
+  pdf: baseProfile(
+    'Analyze this document. Provide a concise summary (max 2 sentences) of its purpose and key content.',
+    [{ key: 'documentType', type: 'string', description: 'The kind of document, e.g. invoice, contract, receipt, report' }]
+  ),
+  text: baseProfile('Analyze this text file. Provide a concise summary (max 2 sentences) of its content.'),
+  // Speech is transcribed separately, with timestamps
+  audio: baseProfile('Analyze this audio. Provide a concise summary (max 2 sentences) of what can be heard.'),
+  video: baseProfile('Analyze this video. Provide a concise summary (max 2 sentences) of what happens in it, covering both visuals and audio.')
+};
+
+// --- Persistence ---
+const PREFERENCE_KEY = 'analysisProfiles';
+
+// Stored profiles only contain the types the user has customised
+export const loadAnalysisProfiles = (uid: string): AnalysisProfiles => ({
+  ...DEFAULT_PROFILES,
+  ...loadPreference<Partial<AnalysisProfiles>>(uid, PREFERENCE_KEY, {})
+});
+
+export const saveAnalysisProfiles = (uid: string, profiles: AnalysisProfiles) => {
+  const customised = ANALYZABLE_TYPES.filter(type => JSON.stringify(profiles[type]) !== JSON.stringify(DEFAULT_PROFILES[type]));
+  savePreference(uid, PREFERENCE_KEY, Object.fromEntries(customised.map(type => [type, profiles[type]])));
+};
+
+// --- Helpers ---
+export const getProfile = (profiles: AnalysisProfiles, type: FileType): AnalysisProfile | null =>
+  type === 'other' ? null : profiles[type];
+
+// Changes to anything but the model mark earlier results as stale
+export const profileSignature = (profile: AnalysisProfile) =>
+  hashString(JSON.stringify([profile.prompt, profile.minTags, profile.maxTags, profile.fields]));
+
+// Returns a message for the first problem found, or null when the profile is usable
+export const validateProfile = (profile: AnalysisProfile): string | null => {
+  if (!profile.prompt.trim()) return 'The prompt cannot be empty';
+  if (profile.minTags < 0 || profile.maxTags > MAX_TAGS || profile.minTags > profile.maxTags) {
+    return `Tag counts must satisfy 0 ≤ min ≤ max ≤ ${MAX_TAGS}`;
+  }
+  const keys = new Set<string>();
+  for (const field of profile.fields) {
+    if (!FIELD_KEY_PATTERN.test(field.key)) return `"${field.key}" is not a valid field name (letters, digits and _ only)`;
+    if (RESERVED_KEYS.includes(field.key)) return `"${field.key}" is reserved`;
+    if (keys.has(field.key)) return `"${field.key}" is used twice`;
+    if (!field.description.trim()) return `Describe what "${field.key}" should contain`;
+    keys.add(field.key);
+  }
+  return null;
+};
+
+// Full prompt sent with the file: the profile's instructions plus what the schema expects
+export const buildAnalysisPrompt = (profile: AnalysisProfile) => [
+  profile.prompt.trim(),
+  `Provide ${profile.minTags === profile.maxTags ? profile.maxTags : `${profile.minTags}-${profile.maxTags}`} relevant tags to help categorize it.`,
+  ...profile.fields.map(field => `${field.key}: ${field.description}`)
+].join('\n');
+
+// Keeps only the extra values that match their declared type
+export const pickExtraFields = (profile: AnalysisProfile, result: Record<string, unknown>): Record<string, AnalysisValue> => {
+  const extra: Record<string, AnalysisValue> = {};
+  profile.fields.forEach(({ key, type }) => {
+    const value = result[key];
+    if (type === 'string[]' ? Array.isArray(value) : typeof value === type) {
+      extra[key] = type === 'string[]' ? (value as unknown[]).map(String) : value as AnalysisValue;
+    }
+  });
+  return extra;
+};
+
+// "dominantColors" -> "Dominant colors"
+export const humanizeFieldKey = (key: string) => {
+  const words = key.replace(/_/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DriveFile } from '../types';
+import { AiClient } from './ai';
+import { AnalysisUpdates, createAnalysisQueue, MAX_ANALYSIS_BYTES } from './analysisQueue';
+import { DEFAULT_PROFILES, getProfile } from './analysisProfiles';
+import { createFakeAiClient } from './fakeAiClient';
+
+const LEASES_KEY = 'super-drive-analysis-leases-u1';
+const stored = new Map<string, string>();
+
+const driveFile = (overrides: Partial<DriveFile> = {}): DriveFile => ({
+  id: 'f1',
+  name: 'beach sunset.jpg',
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size: 100,
+  uploadDate: 1,
+  parentId: null,
+  notes: '',
+  ...overrides
+});
+
+const leases = () => JSON.parse(stored.get(LEASES_KEY) || '{}');
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+const queues: { dispose: () => void }[] = [];
+
+// Runs a queue on the fake client; `results` holds each file's latest state
+const startQueue = (ai: AiClient = createFakeAiClient(), blob = new Blob(['contents'])) => {
+  const results = new Map<string, AnalysisUpdates>();
+  const queue = createAnalysisQueue({
+    uid: 'u1',
+    ai,
+    concurrency: 1,
+    requestsPerMinute: 1000,
+    getProfile: type => getProfile(DEFAULT_PROFILES, type),
+    getAlbums: () => [],
+    loadBlob: async () => blob,
+    onUpdate: (id, updates) => results.set(id, { ...results.get(id), ...updates })
+  });
+  queues.push(queue);
+  return { queue, results };
+};
+
+beforeEach(() => {
+  stored.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+    removeItem: (key: string) => void stored.delete(key)
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  queues.splice(0).forEach(queue => queue.dispose());
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('createAnalysisQueue', () => {
+  it('runs every stage a file needs and releases its lease', async () => {
+    const { queue, results } = startQueue();
+    queue.enqueue(driveFile());
+    await vi.waitFor(() => expect(results.get('f1')?.aiData?.status).toBe('done'));
+    await vi.waitFor(() => expect(results.get('f1')?.content?.status).toBe('done'));
+
+    const { aiData, content, extraction } = results.get('f1')!;
+    expect(aiData).toMatchObject({ summary: 'A image file named beach sunset.jpg.', model: 'fake-analyzer' });
+    expect(aiData?.tags).toContain('beach');
+    expect(content?.text).toContain('beach sunset');
+    expect(extraction?.status).toBe('skipped'); // not a receipt, invoice or card
+    await vi.waitFor(() => expect(leases()).toEqual({}));
+  });
+
+  it('retries rate limits and server errors', async () => {
+    vi.useFakeTimers();
+    const ai = createFakeAiClient();
+    const analyze = vi.fn(ai.analyze)
+      .mockRejectedValueOnce(Object.assign(new Error('overloaded'), { status: 503 }));
+    const { queue, results } = startQueue({ ...ai, analyze });
+
+    queue.enqueue(driveFile());
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(results.get('f1')?.aiData?.status).toBe('done');
+  });
+
+  it('gives up on requests that cannot succeed', async () => {
+    const ai = createFakeAiClient();
+    const analyze = vi.fn(async () => { throw Object.assign(new Error('invalid argument'), { status: 400 }); });
+    const { queue, results } = startQueue({ ...ai, analyze });
+
+    queue.enqueue(driveFile());
+    await vi.waitFor(() => expect(results.get('f1')?.aiData?.status).toBe('failed'));
+    expect(results.get('f1')?.aiData?.error).toBe('invalid argument');
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips files that cannot be analysed', async () => {
+    const { queue, results } = startQueue();
+    queue.enqueue(driveFile({ name: 'archive.bin', type: 'other', mimeType: 'application/octet-stream' }));
+    await vi.waitFor(() => expect(results.get('f1')?.aiData?.status).toBe('skipped'));
+  });
+
+  it('only skips the summary for files too large to send inline', async () => {
+    const { queue, results } = startQueue();
+    queue.enqueue(driveFile({ name: 'scan.pdf', type: 'pdf', mimeType: 'application/pdf', size: MAX_ANALYSIS_BYTES + 1 }));
+    await vi.waitFor(() => expect(results.get('f1')?.content?.status).toBe('done'));
+    expect(results.get('f1')?.aiData).toMatchObject({ status: 'skipped', error: 'Files over 14 MB are not summarized or tagged' });
+  });
+
+  it('summarises large text files from their start', async () => {
+    const ai = createFakeAiClient();
+    const analyze = vi.fn(ai.analyze);
+    const blob = new Blob([new Uint8Array(MAX_ANALYSIS_BYTES + 10)], { type: 'text/plain' });
+    const { queue, results } = startQueue({ ...ai, analyze }, blob);
+
+    queue.enqueue(driveFile({ name: 'log.txt', type: 'text', mimeType: 'text/plain', size: blob.size }));
+    await vi.waitFor(() => expect(results.get('f1')?.aiData?.status).toBe('done'));
+    expect(analyze.mock.calls[0][1].size).toBe(MAX_ANALYSIS_BYTES);
+  });
+
+  it("leaves files alone while another queue's lease is live", async () => {
+    stored.set(LEASES_KEY, JSON.stringify({ f1: { owner: 'other-tab', heartbeatAt: Date.now() } }));
+    const { queue, results } = startQueue();
+    queue.enqueue(driveFile());
+    queue.resume([driveFile({ aiData: { status: 'running', summary: '', tags: [] } })]);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(results.size).toBe(0);
+  });
+
+  it('resumes unfinished work whose lease has lapsed', async () => {
+    stored.set(LEASES_KEY, JSON.stringify({ f1: { owner: 'closed-tab', heartbeatAt: Date.now() - 60_000 } }));
+    const { queue, results } = startQueue();
+    queue.resume([
+      driveFile({ aiData: { status: 'running', summary: '', tags: [] } }),
+      driveFile({ id: 'f2', aiData: { status: 'done', summary: 'Done already', tags: [] } })
+    ]);
+    await vi.waitFor(() => expect(results.get('f1')?.aiData?.status).toBe('done'));
+    expect(results.has('f2')).toBe(false);
+  });
+
+  it('keeps running jobs leased after being disposed and drops waiting ones', async () => {
+    const ai = createFakeAiClient();
+    const gate = deferred();
+    const analyze = vi.fn(async (...args: Parameters<AiClient['analyze']>) => {
+      await gate.promise;
+      return ai.analyze(...args);
+    });
+    const { queue, results } = startQueue({ ...ai, analyze });
+
+    queue.enqueue(driveFile());
+    queue.enqueue(driveFile({ id: 'f2' }));
+    await vi.waitFor(() => expect(analyze).toHaveBeenCalledTimes(1));
+    queue.dispose();
+    expect(Object.keys(leases())).toEqual(['f1']);
+
+    gate.resolve();
+    await vi.waitFor(() => expect(results.get('f1')?.aiData?.status).toBe('done'));
+    await vi.waitFor(() => expect(leases()).toEqual({}));
+    expect(results.get('f2')?.aiData?.status).toBe('pending');
+  });
+});
@@ -0,0 +1,378 @@
+import { AIAnalysis, AnalysisProfile, AnalysisStatus, AutoAlbum, DocumentExtraction, DriveFile, FileContent, FileType, Transcript } from '../types';
+import { AiClient } from './ai';
+import { profileSignature } from './analysisProfiles';
+import { createLimiter, createRateLimiter, retryWithBackoff } from './concurrency';
+import { isExtractable, isExtractionActive } from './extraction';
+import { isTranscribable, isTranscriptionActive } from './transcripts';
+import { isContentActive, isOcrCandidate, toFileContent } from './fileContent';
+import { applyAlbumMatches, staleAlbums } from './collections';
+
+// Summaries and tags are asked for with the file sent inline, which Gemini caps
+// at 20 MB before base64 inflates it by a third. The other stages upload larger
+// files, up to the Files API's 2 GB.
+export const MAX_ANALYSIS_BYTES = 14 * 1024 * 1024;
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY = 2000;
+const MAX_ERROR_LENGTH = 200;
+
+// --- Status Helpers ---
+export const isAnalysisActive = (file: DriveFile) =>
+  file.aiData?.status === 'pending' || file.aiData?.status === 'running';
+
+// Failed analyses, and results from a different model or a since-edited profile, can be re-run
+export const canReanalyze = (file: DriveFile, profile: AnalysisProfile | null, defaultModel: string) => {
+  if (file.aiData?.status === 'failed') return true;
+  if (file.aiData?.status !== 'done' || !profile) return false;
+  return file.aiData.model !== (profile.model || defaultModel) || file.aiData.profile !== profileSignature(profile);
+};
+
+// Some stage still has to run, or was interrupted while running
+const hasUnfinishedWork = (file: DriveFile) =>
+  isAnalysisActive(file) || isContentActive(file) || isExtractionActive(file) || isTranscriptionActive(file);
+
+export const getSkipReason = (file: DriveFile): string | null => {
+  if (file.type === 'other') return 'This file type cannot be analyzed';
+  if (file.size > MAX_UPLOAD_BYTES) return `Files over ${MAX_UPLOAD_BYTES / 1024 / 1024 / 1024} GB are not analyzed`;
+  return null;
+};
+
+// Text is summarised from its start, so only other files can be too large for it
+const getAnalysisSkipReason = (file: DriveFile): string | null =>
+  file.type !== 'text' && file.size > MAX_ANALYSIS_BYTES
+    ? `Files over ${MAX_ANALYSIS_BYTES / 1024 / 1024} MB are not summarized or tagged`
+    : null;
+
+// Summaries the old pipeline stored in place of an error
+const LEGACY_FAILURE_SUMMARIES = ['Could not generate summary at this time.', 'Analysis failed'];
+
+// Records written before `status` existed only had an isAnalyzing flag
+export const upgradeLegacyAnalysis = (file: DriveFile): DriveFile => {
+  const legacy = file.aiData as (AIAnalysis & { isAnalyzing?: boolean }) | undefined;
+  if (!legacy || legacy.status) return file;
+
+  const { isAnalyzing, ...rest } = legacy;
+  if (LEGACY_FAILURE_SUMMARIES.includes(rest.summary)) {
+    return { ...file, aiData: { summary: '', tags: [], status: 'failed', error: 'The previous analysis did not complete' } };
+  }
+  return { ...file, aiData: { ...rest, status: isAnalyzing || !rest.summary ? 'pending' : 'done' } };
+};
+
+// Rate limits, overload and network failures are worth retrying; bad requests are not
+const isRetryable = (error: unknown) => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  return error instanceof TypeError;
+};
+
+const describeError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.length > MAX_ERROR_LENGTH ? `${message.slice(0, MAX_ERROR_LENGTH)}…` : message;
+};
+
+// --- Leases ---
+// Pending/running status is persisted with the file, so a job interrupted by a
+// reload or sign-out would otherwise look in progress forever. Each queue keeps
+// a heartbeat lease per job in localStorage; a job whose lease has lapsed is an
+// orphan and gets picked up again, while live leases stop two tabs from
+// analysing the same file.
+const LEASE_TIMEOUT = 45_000;
+const HEARTBEAT_INTERVAL = 15_000;
+
+interface AnalysisLease {
+  owner: string;
+  heartbeatAt: number;
+}
+
+const leasesKey = (uid: string) => `super-drive-analysis-leases-${uid}`;
+
+const loadLeases = (uid: string): Record<string, AnalysisLease> => {
+  try {
+    return JSON.parse(localStorage.getItem(leasesKey(uid)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveLeases = (uid: string, leases: Record<string, AnalysisLease>) => {
+  if (Object.keys(leases).length === 0) localStorage.removeItem(leasesKey(uid));
+  else localStorage.setItem(leasesKey(uid), JSON.stringify(leases));
+};
+
+const isLeaseLive = (lease: AnalysisLease | undefined, now: number) => !!lease && now - lease.heartbeatAt < LEASE_TIMEOUT;
+
+// --- Queue ---
+// Each job analyses the file. Images and PDFs also have their text read with
+// OCR, and are classified so structured data can be extracted from receipts,
+// invoices and cards. Audio and video files are transcribed. Once analysed, a
+// file is checked against the user's auto-album rules.
+export type AnalysisStage = 'analysis' | 'ocr' | 'extraction' | 'transcription' | 'albums';
+
+export type AnalysisUpdates = Partial<Pick<DriveFile, 'aiData' | 'content' | 'extraction' | 'transcript' | 'albums'>>;
+
+interface EnqueueOptions {
+  // Saves a read when the caller already has the file's contents
+  blob?: Blob;
+  // Stages to run again even though they finished; unfinished stages always
+  // run. Extractions the user has edited are never overwritten. Re-running
+  // 'albums' only checks the albums created or edited since the last check.
+  rerun?: AnalysisStage[];
+}
+
+interface AnalysisQueueOptions {
+  uid: string;
+  ai: AiClient;
+  concurrency: number;
+  requestsPerMinute: number;
+  getProfile: (type: FileType) => AnalysisProfile | null;
+  getAlbums: () => AutoAlbum[];
+  loadBlob: (id: string) => Promise<Blob | null>;
+  onUpdate: (id: string, updates: AnalysisUpdates) => void;
+}
+
+// Runs analyses in the background with bounded concurrency, a request rate
+// limit and retries. Every state change is reported through onUpdate.
+export const createAnalysisQueue = ({ uid, ai, concurrency, requestsPerMinute, getProfile, getAlbums, loadBlob, onUpdate }: AnalysisQueueOptions) => {
+  const limit = createLimiter(concurrency);
+  const rateLimit = createRateLimiter(requestsPerMinute);
+  const active = new Set<string>();
+  const running = new Set<string>(); // active jobs past the concurrency limit
+  const owner = crypto.randomUUID();
+  let disposed = false;
+
+  const claim = (id: string) => {
+    const leases = loadLeases(uid);
+    const now = Date.now();
+    if (isLeaseLive(leases[id], now) && leases[id].owner !== owner) return false;
+    leases[id] = { owner, heartbeatAt: now };
+    saveLeases(uid, leases);
+    return true;
+  };
+
+  const release = (ids: string[]) => {
+    const leases = loadLeases(uid);
+    ids.forEach(id => { if (leases[id]?.owner === owner) delete leases[id]; });
+    saveLeases(uid, leases);
+  };
+
+  const heartbeat = setInterval(() => {
+    if (active.size === 0) return;
+    const leases = loadLeases(uid);
+    const now = Date.now();
+    active.forEach(id => { leases[id] = { owner, heartbeatAt: now }; });
+    saveLeases(uid, leases);
+  }, HEARTBEAT_INTERVAL);
+
+  // Rate limited, retried call to the model
+  const callAi = <T>(label: string, file: DriveFile, task: () => Promise<T>) =>
+    retryWithBackoff(() => rateLimit(task), {
+      attempts: MAX_ATTEMPTS,
+      baseDelay: BASE_RETRY_DELAY,
+      shouldRetry: isRetryable,
+      onRetry: (attempt, error, delay) =>
+        console.warn(`${label} of ${file.name} failed (attempt ${attempt}), retrying in ${Math.round(delay / 1000)}s:`, error)
+    });
+
+  const run = async (file: DriveFile, { blob, rerun = [] }: EnqueueOptions) => {
+    const runAnalysis = rerun.includes('analysis') || !file.aiData || isAnalysisActive(file);
+    const runOcr = isOcrCandidate(file) && (rerun.includes('ocr') || !file.content || isContentActive(file));
+    const runExtraction = isExtractable(file) && !file.extraction?.editedAt &&
+      (rerun.includes('extraction') || !file.extraction || isExtractionActive(file));
+    const runTranscription = isTranscribable(file) &&
+      (rerun.includes('transcription') || !file.transcript || isTranscriptionActive(file));
+    // A fresh analysis is checked against every album
+    const albumsToCheck = runAnalysis ? getAlbums() : rerun.includes('albums') ? staleAlbums(file, getAlbums()) : [];
+    if (!runAnalysis && !runOcr && !runExtraction && !runTranscription && albumsToCheck.length === 0) return;
+
+    // Earlier results stay visible until a re-run replaces them
+    let analysis: AIAnalysis = {
+      summary: file.aiData?.summary || '',
+      tags: file.aiData?.tags || [],
+      ...(file.aiData?.extra ? { extra: file.aiData.extra } : {}),
+      status: 'pending'
+    };
+    let content: FileContent = {
+      text: file.content?.text || '',
+      status: 'pending'
+    };
+    let extraction: DocumentExtraction = {
+      ...(file.extraction?.kind ? { kind: file.extraction.kind } : {}),
+      ...(file.extraction?.data ? { data: file.extraction.data } : {}),
+      status: 'pending'
+    };
+    let transcript: Transcript = {
+      segments: file.transcript?.segments || [],
+      ...(file.transcript?.language ? { language: file.transcript.language } : {}),
+      status: 'pending'
+    };
+    const updateAnalysis = (changes: Partial<AIAnalysis>) => {
+      analysis = { ...analysis, ...changes };
+      if (analysis.status !== 'failed' && analysis.status !== 'skipped') delete analysis.error;
+      onUpdate(file.id, { aiData: analysis });
+    };
+    const updateContent = (changes: Partial<FileContent>) => {
+      content = { ...content, ...changes };
+      if (content.status !== 'failed' && content.status !== 'skipped') delete content.error;
+      onUpdate(file.id, { content });
+    };
+    const updateExtraction = (changes: Partial<DocumentExtraction>) => {
+      extraction = { ...extraction, ...changes };
+      if (extraction.status !== 'failed' && extraction.status !== 'skipped') delete extraction.error;
+      onUpdate(file.id, { extraction });
+    };
+    const updateTranscript = (changes: Partial<Transcript>) => {
+      transcript = { ...transcript, ...changes };
+      if (transcript.status !== 'failed' && transcript.status !== 'skipped') delete transcript.error;
+      onUpdate(file.id, { transcript });
+    };
+    // Moves the stages being run along together for the steps they share
+    const updateStages = (status: AnalysisStatus, error?: string) => {
+      const finished = status === 'skipped' || status === 'failed';
+      if (runAnalysis) updateAnalysis({ status, error, ...(finished ? { analyzedAt: Date.now() } : {}) });
+      if (runOcr) updateContent({ status, error, ...(finished ? { extractedAt: Date.now() } : {}) });
+      if (runExtraction) updateExtraction({ status, error, ...(finished ? { extractedAt: Date.now() } : {}) });
+      if (runTranscription) updateTranscript({ status, error, ...(finished ? { transcribedAt: Date.now() } : {}) });
+    };
+
+    const skipReason = getSkipReason(file);
+    const profile = getProfile(file.type);
+    if (skipReason || !profile) {
+      updateStages('skipped', skipReason || 'This file type cannot be analyzed');
+      return;
+    }
+
+    const analyze = async (data: Blob) => {
+      const analysisSkipReason = getAnalysisSkipReason(file);
+      if (analysisSkipReason) {
+        updateAnalysis({ status: 'skipped', error: analysisSkipReason, analyzedAt: Date.now() });
+        return;
+      }
+      try {
+        const sent = data.size > MAX_ANALYSIS_BYTES ? data.slice(0, MAX_ANALYSIS_BYTES, data.type) : data;
+        const result = await callAi('Analysis', file, () => ai.analyze(file, sent, profile));
+        updateAnalysis({
+          status: 'done',
+          summary: result.summary,
+          tags: result.tags,
+          extra: result.extra,
+          model: profile.model || ai.analysisModel,
+          profile: profileSignature(profile),
+          analyzedAt: Date.now()
+        });
+      } catch (error) {
+        console.error(`Analysis of ${file.name} failed:`, error);
+        updateAnalysis({ status: 'failed', error: describeError(error), analyzedAt: Date.now() });
+      }
+    };
+
+    const readText = async (data: Blob) => {
+      try {
+        const text = await callAi('OCR', file, () => ai.readText(file, data));
+        content = { ...toFileContent(text, 'ocr'), model: ai.ocrModel };
+        onUpdate(file.id, { content });
+      } catch (error) {
+        console.error(`Reading text from ${file.name} failed:`, error);
+        updateContent({ status: 'failed', error: describeError(error), extractedAt: Date.now() });
+      }
+    };
+
+    const extract = async (data: Blob) => {
+      try {
+        const kind = await callAi('Classification', file, () => ai.classifyDocument(file, data));
+        if (!kind) {
+          // Not a document we extract from; earlier data no longer applies
+          extraction = { status: 'skipped', model: ai.extractionModel, extractedAt: Date.now() };
+          onUpdate(file.id, { extraction });
+          return;
+        }
+        const result = await callAi('Extraction', file, () => ai.extractDocument(file, data, kind));
+        updateExtraction({ status: 'done', kind, data: result, model: ai.extractionModel, extractedAt: Date.now() });
+      } catch (error) {
+        console.error(`Extraction from ${file.name} failed:`, error);
+        updateExtraction({ status: 'failed', error: describeError(error), extractedAt: Date.now() });
+      }
+    };
+
+    const transcribe = async (data: Blob) => {
+      try {
+        const result = await callAi('Transcription', file, () => ai.transcribe(file, data));
+        updateTranscript({ status: 'done', ...result, model: ai.transcriptionModel, transcribedAt: Date.now() });
+      } catch (error) {
+        console.error(`Transcription of ${file.name} failed:`, error);
+        updateTranscript({ status: 'failed', error: describeError(error), transcribedAt: Date.now() });
+      }
+    };
+
+    // Failures are only logged: the albums stay unchecked, so the next scan retries them
+    const matchAlbums = async (data: Blob) => {
+      const analyzed = runAnalysis ? analysis : file.aiData;
+      if (analyzed?.status !== 'done') return;
+      try {
+        const matched = await callAi('Album matching', file, () => ai.matchAlbums({ ...file, aiData: analyzed }, data, albumsToCheck));
+        onUpdate(file.id, { albums: applyAlbumMatches(file.albums, albumsToCheck, matched, getAlbums()) });
+      } catch (error) {
+        console.error(`Matching ${file.name} against albums failed:`, error);
+      }
+    };
+
+    updateStages('pending');
+    try {
+      await limit(async () => {
+        // Disposed queues leave waiting jobs pending for the next queue to resume
+        if (disposed) return;
+        running.add(file.id);
+        updateStages('running');
+        const data = blob ?? await loadBlob(file.id);
+        if (disposed) return;
+        if (!data) throw new Error('File contents are missing');
+
+        if (runAnalysis) await analyze(data);
+        if (runOcr) await readText(data);
+        if (runExtraction) await extract(data);
+        if (runTranscription) await transcribe(data);
+        if (albumsToCheck.length > 0) await matchAlbums(data);
+      });
+    } catch (error) {
+      console.error(`Could not read ${file.name} for analysis:`, error);
+      updateStages('failed', describeError(error));
+    }
+  };
+
+  const enqueue = (file: DriveFile, options: EnqueueOptions = {}) => {
+    if (disposed || active.has(file.id) || !claim(file.id)) return;
+    active.add(file.id);
+    run(file, options).finally(() => {
+      active.delete(file.id);
+      running.delete(file.id);
+      release([file.id]);
+      if (disposed && active.size === 0) clearInterval(heartbeat);
+    });
+  };
+
+  return {
+    enqueue,
+
+    // Restarts jobs that are marked in progress but that no live queue owns,
+    // e.g. after a reload, a closed tab or signing out mid-analysis
+    resume(files: DriveFile[]) {
+      const now = Date.now();
+      const leases = loadLeases(uid);
+      const orphans = files.filter(f => hasUnfinishedWork(f) && !active.has(f.id) && !isLeaseLive(leases[f.id], now));
+      orphans.forEach(file => enqueue(file));
+    },
+
+    // Running jobs still save their results and keep their leases alive until
+    // they settle, so no other queue analyses the same file meanwhile. Waiting
+    // jobs are dropped at once, leaving them for the next queue to resume.
+    dispose() {
+      disposed = true;
+      const waiting = Array.from(active).filter(id => !running.has(id));
+      waiting.forEach(id => active.delete(id));
+      release(waiting);
+      if (active.size === 0) clearInterval(heartbeat);
+    }
+  };
+};
+
+export type AnalysisQueue = ReturnType<typeof createAnalysisQueue>;
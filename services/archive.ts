@@ -0,0 +1,133 @@
+import { DriveFile, DriveFolder } from '../types';
+import { getFolderPath } from './folders';
+import { fileTags } from './tags';
+import { currentVersionDate } from './versions';
+import { createZipWriter, cleanPath, uniquePath, ZipWriter } from './zip';
+import { downloadBlob } from './fileUtils';
+
+export const MANIFEST_NAME = 'manifest.json';
+
+export interface ArchiveItem {
+  file: DriveFile;
+  path: string;
+}
+
+// --- Paths ---
+// The deepest folder holding every file, so a selection from one folder isn't
+// wrapped in the folders above it
+export const commonFolderId = (files: DriveFile[], folders: DriveFolder[]): string | null => {
+  const paths = files.map(file => getFolderPath(folders, file.parentId ?? null).map(f => f.id));
+  if (paths.length === 0) return null;
+  let depth = 0;
+  while (depth < paths[0].length && paths.every(path => path[depth] === paths[0][depth])) depth++;
+  return depth > 0 ? paths[0][depth - 1] : null;
+};
+
+// Each file's path inside the archive: its folders below `baseFolderId`, then its name.
+// Without a base the files' common folder is used. Clashing names are numbered here,
+// not by the writer, so the manifest lists the paths that were really written.
+export const archiveItems = (files: DriveFile[], folders: DriveFolder[], baseFolderId?: string | null, reserved: string[] = []): ArchiveItem[] => {
+  const base = baseFolderId === undefined ? commonFolderId(files, folders) : baseFolderId;
+  const baseDepth = getFolderPath(folders, base).length;
+  const taken = new Set(reserved.map(path => path.toLowerCase()));
+  return files.map(file => {
+    const folderNames = getFolderPath(folders, file.parentId ?? null).slice(baseDepth).map(f => f.name);
+    return { file, path: uniquePath(cleanPath([...folderNames, file.name].join('/')), taken) };
+  });
+};
+
+// --- Manifest ---
+// Describes the archived files for whoever receives them; `version` changes if fields do
+export const buildManifest = (items: ArchiveItem[], now = Date.now()) => ({
+  version: 1,
+  createdAt: new Date(now).toISOString(),
+  files: items.map(({ file, path }) => ({
+    path,
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.size,
+    uploadedAt: new Date(file.uploadDate).toISOString(),
+    ...(file.updatedAt ? { updatedAt: new Date(file.updatedAt).toISOString() } : {}),
+    notes: file.notes,
+    tags: fileTags(file),
+    summary: file.aiData?.summary || ''
+  }))
+});
+
+// --- Download ---
+// The File System Access API isn't in TypeScript's DOM types yet
+interface WritableFileStream {
+  write: (data: BlobPart) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<{ createWritable: () => Promise<WritableFileStream> }>;
+
+// Streams the archive to a file the user picks where the browser allows it, so
+// only the entry being written is in memory; elsewhere it is assembled as a Blob
+// and downloaded. Resolves to false if the user cancelled the save dialog.
+export const saveZip = async (filename: string, build: (writer: ZipWriter) => Promise<void>): Promise<boolean> => {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+  let stream: WritableFileStream | null = null;
+  if (picker) {
+    try {
+      const handle = await picker({ suggestedName: filename, types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }] });
+      stream = await handle.createWritable();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return false;
+      throw error;
+    }
+  }
+
+  const parts: BlobPart[] = [];
+  const writer = createZipWriter(part => stream ? stream.write(part) : void parts.push(part));
+  try {
+    await build(writer);
+    await writer.finish();
+  } catch (error) {
+    await stream?.abort();
+    throw error;
+  }
+
+  if (stream) await stream.close();
+  else downloadBlob(new Blob(parts, { type: 'application/zip' }), filename);
+  return true;
+};
+
+interface ArchiveOptions {
+  name: string;
+  files: DriveFile[];
+  folders: DriveFolder[];
+  baseFolderId?: string | null;
+  includeManifest: boolean;
+  loadBlob: (id: string) => Promise<Blob | null>;
+  onProgress?: (progress: number) => void;
+}
+
+// Files are loaded one at a time; ones without stored contents are left out
+export const downloadArchive = async ({
+  name, files, folders, baseFolderId, includeManifest, loadBlob, onProgress
+}: ArchiveOptions): Promise<boolean> => {
+  const items = archiveItems(files, folders, baseFolderId, includeManifest ? [MANIFEST_NAME] : []);
+  return saveZip(`${name}.zip`, async writer => {
+    const archived: ArchiveItem[] = [];
+    for (const [index, item] of items.entries()) {
+      const blob = await loadBlob(item.file.id);
+      if (blob) {
+        await writer.add({ path: item.path, data: blob, modified: currentVersionDate(item.file) });
+        archived.push(item);
+      } else {
+        console.warn(`"${item.file.name}" has no stored contents and was left out of the archive`);
+      }
+      onProgress?.((index + 1) / items.length);
+    }
+    if (includeManifest) {
+      await writer.add({ path: MANIFEST_NAME, data: new Blob([JSON.stringify(buildManifest(archived), null, 2)], { type: 'application/json' }) });
+    }
+  });
+};
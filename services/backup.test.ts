@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DriveFile } from '../types';
+import { Backup, BACKUP_FORMAT, BACKUP_VERSION, importBackup, OpenedBackup, validateBackup } from './backup';
+import { createMemoryBackend } from './memoryBackend';
+import { uploadChunks } from './chunkedUpload';
+import { StorageBackend } from './storage';
+
+const driveFile = (overrides: Partial<DriveFile> = {}): DriveFile => ({
+  id: 'f1',
+  name: 'notes.txt',
+  type: 'text',
+  mimeType: 'text/plain',
+  size: 3,
+  uploadDate: 1,
+  parentId: null,
+  notes: '',
+  ...overrides
+});
+
+const backupOf = (files: DriveFile[]): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  folders: [],
+  files,
+  tagColors: {},
+  collections: { searches: [], albums: [] }
+});
+
+const opened = (files: DriveFile[], entries: Record<string, string>): OpenedBackup => ({
+  backup: backupOf(files),
+  entries: new Map(Object.entries(entries).map(([path, text]) => [path, new Blob([text])]))
+});
+
+// A drive holding f1 ("old", with one earlier version)
+const existingDrive = async () => {
+  const backend = createMemoryBackend();
+  const existing = driveFile({ notes: 'existing', versions: [{ id: 'v-old', size: 1, mimeType: 'text/plain', uploadedAt: 1 }] });
+  await uploadChunks(backend, existing.id, new Blob(['old']));
+  await backend.putVersion(existing.id, 'v-old', new Blob(['o']));
+  await backend.putMetadata(existing);
+  return { backend, existing };
+};
+
+const contents = async (backend: StorageBackend, id: string) => (await backend.get(id))?.text();
+
+describe('validateBackup', () => {
+  it('accepts a well-formed backup', () => {
+    expect(validateBackup(backupOf([driveFile()])).files).toHaveLength(1);
+  });
+
+  it('names the first problem it finds', () => {
+    expect(() => validateBackup({ format: 'other' })).toThrow("This isn't a drive backup");
+    expect(() => validateBackup({ ...backupOf([]), version: BACKUP_VERSION + 1 })).toThrow('newer than this app supports');
+    expect(() => validateBackup(backupOf([driveFile({ size: 'big' as unknown as number })]))).toThrow('files[0].size is missing or invalid');
+    expect(() => validateBackup(backupOf([driveFile(), driveFile()]))).toThrow('files[1].id appears more than once');
+  });
+});
+
+describe('importBackup', () => {
+  const backed = driveFile({ notes: 'imported', versions: [{ id: 'v-new', size: 1, mimeType: 'text/plain', uploadedAt: 2 }] });
+  const archive = () => opened([backed], { 'files/f1': 'new', 'versions/f1/v-new': 'n' });
+
+  it('skips files already in the drive', async () => {
+    const { backend, existing } = await existingDrive();
+    const result = await importBackup({ backend, opened: archive(), mode: 'skip', existingFiles: [existing], existingFolders: [] });
+    expect(result).toMatchObject({ files: [], skipped: 1 });
+    expect(await contents(backend, 'f1')).toBe('old');
+  });
+
+  it('imports a copy under a new id', async () => {
+    const { backend, existing } = await existingDrive();
+    const result = await importBackup({ backend, opened: archive(), mode: 'duplicate', existingFiles: [existing], existingFolders: [] });
+    const [copy] = result.files;
+    expect(copy.id).not.toBe('f1');
+    expect(await contents(backend, copy.id)).toBe('new');
+    expect(await contents(backend, 'f1')).toBe('old');
+  });
+
+  it('overwrites contents and drops versions the backup lacks', async () => {
+    const { backend, existing } = await existingDrive();
+    const result = await importBackup({ backend, opened: archive(), mode: 'overwrite', existingFiles: [existing], existingFolders: [] });
+    expect(result.replaced).toEqual(['f1']);
+    expect(await contents(backend, 'f1')).toBe('new');
+    expect(await backend.getVersion('f1', 'v-old')).toBeNull();
+    expect(await backend.getVersion('f1', 'v-new')).not.toBeNull();
+    expect((await backend.list())[0].notes).toBe('imported');
+  });
+
+  it('keeps the overwritten file when storing the import fails', async () => {
+    const { backend, existing } = await existingDrive();
+    const failing: StorageBackend = { ...backend, putMetadata: async () => { throw new Error('quota exceeded'); } };
+    await expect(importBackup({ backend: failing, opened: archive(), mode: 'overwrite', existingFiles: [existing], existingFolders: [] }))
+      .rejects.toThrow('quota exceeded');
+    expect(await contents(backend, 'f1')).toBe('old');
+    expect(await backend.getVersion('f1', 'v-old')).not.toBeNull();
+    expect((await backend.list())[0].notes).toBe('existing');
+  });
+
+  it('counts files whose contents are missing from the archive', async () => {
+    const result = await importBackup({ backend: createMemoryBackend(), opened: opened([backed], {}), mode: 'skip', existingFiles: [], existingFolders: [] });
+    expect(result).toMatchObject({ files: [], missing: 1 });
+  });
+});
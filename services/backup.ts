@@ -0,0 +1,321 @@
+import { DriveFile, DriveFolder, FileType, AnalysisStatus } from '../types';
+import { StorageBackend } from './storage';
+import { Collections } from './collections';
+import { TagColors } from './tags';
+import { uploadChunks } from './chunkedUpload';
+import { currentVersionDate } from './versions';
+import { readZip, ZipWriter } from './zip';
+import { saveZip } from './archive';
+
+// A backup is a ZIP archive holding:
+//   backup.json                      the Backup record below
+//   files/<fileId>                   each file's current contents
+//   versions/<fileId>/<versionId>    contents of each earlier version
+// The layout and fields are documented in the README; bump BACKUP_VERSION
+// whenever they change, and keep reading older versions.
+export const BACKUP_FORMAT = 'super-drive-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_MANIFEST = 'backup.json';
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  folders: DriveFolder[];
+  // Trashed files are included (with deletedAt); embeddings are left out and recomputed
+  files: DriveFile[];
+  tagColors: TagColors;
+  collections: Collections;
+}
+
+const contentPath = (fileId: string) => `files/${fileId}`;
+const versionPath = (fileId: string, versionId: string) => `versions/${fileId}/${versionId}`;
+
+// --- Export ---
+interface ExportOptions {
+  backend: StorageBackend;
+  files: DriveFile[];
+  folders: DriveFolder[];
+  tagColors: TagColors;
+  collections: Collections;
+  onProgress?: (progress: number) => void;
+}
+
+export interface ExportResult {
+  saved: boolean;
+  // Files whose contents couldn't be read; they aren't in the backup
+  missing: DriveFile[];
+}
+
+const writeFile = async (writer: ZipWriter, backend: StorageBackend, file: DriveFile): Promise<DriveFile | null> => {
+  const blob = await backend.get(file.id);
+  if (!blob) return null;
+  await writer.add({ path: contentPath(file.id), data: blob, modified: currentVersionDate(file) });
+
+  const versions = [];
+  for (const version of file.versions || []) {
+    const data = await backend.getVersion(file.id, version.id);
+    if (!data) continue;
+    await writer.add({ path: versionPath(file.id, version.id), data, modified: version.uploadedAt });
+    versions.push(version);
+  }
+  const { embedding, ...rest } = file;
+  return { ...rest, ...(file.versions ? { versions } : {}) };
+};
+
+export const exportBackup = async ({ backend, files, folders, tagColors, collections, onProgress }: ExportOptions): Promise<ExportResult> => {
+  const missing: DriveFile[] = [];
+  const saved = await saveZip(`drive-backup-${new Date().toISOString().slice(0, 10)}.zip`, async writer => {
+    const exported: DriveFile[] = [];
+    for (const [index, file] of files.entries()) {
+      const record = await writeFile(writer, backend, file);
+      if (record) exported.push(record);
+      else missing.push(file);
+      onProgress?.((index + 1) / files.length);
+    }
+    const backup: Backup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      folders,
+      files: exported,
+      tagColors,
+      collections
+    };
+    await writer.add({ path: BACKUP_MANIFEST, data: new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }) });
+  });
+  return { saved, missing };
+};
+
+// --- Validation ---
+const FILE_TYPES: FileType[] = ['image', 'text', 'pdf', 'video', 'audio', 'other'];
+const ANALYSIS_STATUSES: AnalysisStatus[] = ['pending', 'running', 'done', 'failed', 'skipped'];
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isObject: Check = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isStringArray: Check = value => Array.isArray(value) && value.every(isString);
+const isOneOf = (options: readonly unknown[]): Check => value => options.includes(value);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const nullable = (check: Check): Check => value => value === null || value === undefined || check(value);
+
+// Checks the fields a record needs; anything else it carries is kept as it is
+const checkFields = (record: unknown, where: string, fields: Record<string, Check>) => {
+  if (!isObject(record)) throw new Error(`${where} is not an object`);
+  for (const [key, check] of Object.entries(fields)) {
+    if (!check((record as Record<string, unknown>)[key])) throw new Error(`${where}.${key} is missing or invalid`);
+  }
+};
+
+const FOLDER_FIELDS: Record<string, Check> = {
+  id: isString,
+  name: isString,
+  parentId: nullable(isString),
+  createdAt: isNumber
+};
+
+const FILE_FIELDS: Record<string, Check> = {
+  id: isString,
+  name: isString,
+  type: isOneOf(FILE_TYPES),
+  mimeType: isString,
+  size: isNumber,
+  uploadDate: isNumber,
+  parentId: nullable(isString),
+  notes: isString,
+  tags: optional(isStringArray),
+  rejectedTags: optional(isStringArray),
+  aiData: optional(isObject),
+  extraction: optional(isObject),
+  transcript: optional(isObject),
+  content: optional(isObject),
+  albums: optional(isObject),
+  deletedAt: optional(isNumber),
+  updatedAt: optional(isNumber),
+  versions: optional(Array.isArray)
+};
+
+const AI_FIELDS: Record<string, Check> = {
+  summary: isString,
+  tags: isStringArray,
+  status: isOneOf(ANALYSIS_STATUSES)
+};
+
+const VERSION_FIELDS: Record<string, Check> = {
+  id: isString,
+  size: isNumber,
+  mimeType: isString,
+  uploadedAt: isNumber
+};
+
+// Throws with the first problem found, naming where it is
+export const validateBackup = (data: unknown): Backup => {
+  if (!isObject(data)) throw new Error(`${BACKUP_MANIFEST} is not an object`);
+  const backup = data as Record<string, unknown>;
+  if (backup.format !== BACKUP_FORMAT) throw new Error("This isn't a drive backup");
+  if (!Number.isInteger(backup.version) || (backup.version as number) < 1) throw new Error('The backup has no valid format version');
+  if ((backup.version as number) > BACKUP_VERSION) {
+    throw new Error(`This backup uses format version ${backup.version}, which is newer than this app supports (${BACKUP_VERSION})`);
+  }
+  checkFields(backup, 'backup', { exportedAt: isString, folders: Array.isArray, files: Array.isArray, tagColors: isObject, collections: isObject });
+
+  (backup.folders as unknown[]).forEach((folder, i) => checkFields(folder, `folders[${i}]`, FOLDER_FIELDS));
+  const ids = new Set<string>();
+  (backup.files as unknown[]).forEach((file, i) => {
+    checkFields(file, `files[${i}]`, FILE_FIELDS);
+    const record = file as DriveFile;
+    if (record.aiData) checkFields(record.aiData, `files[${i}].aiData`, AI_FIELDS);
+    (record.versions || []).forEach((version, v) => checkFields(version, `files[${i}].versions[${v}]`, VERSION_FIELDS));
+    if (ids.has(record.id)) throw new Error(`files[${i}].id appears more than once`);
+    ids.add(record.id);
+  });
+  checkFields(backup.collections, 'collections', { searches: Array.isArray, albums: Array.isArray });
+  return backup as unknown as Backup;
+};
+
+// --- Import ---
+export interface OpenedBackup {
+  backup: Backup;
+  entries: Map<string, Blob>;
+}
+
+export const openBackup = async (archive: Blob): Promise<OpenedBackup> => {
+  const entries = await readZip(archive);
+  const manifest = entries.get(BACKUP_MANIFEST);
+  if (!manifest) throw new Error(`The archive has no ${BACKUP_MANIFEST}; it isn't a drive backup`);
+  let data: unknown;
+  try {
+    data = JSON.parse(await manifest.text());
+  } catch {
+    throw new Error(`${BACKUP_MANIFEST} is not valid JSON`);
+  }
+  return { backup: validateBackup(data), entries };
+};
+
+// What to do with a backed-up file whose id is already in the drive
+export type ConflictMode = 'skip' | 'overwrite' | 'duplicate';
+
+export const CONFLICT_MODES: { value: ConflictMode; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep the file already in the drive' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace it with the backed-up file' },
+  { value: 'duplicate', label: 'Keep both', description: 'Import the backed-up file as a copy' }
+];
+
+export const countConflicts = (backup: Backup, existingIds: Set<string>) =>
+  backup.files.filter(file => existingIds.has(file.id)).length;
+
+interface ImportOptions {
+  backend: StorageBackend;
+  opened: OpenedBackup;
+  mode: ConflictMode;
+  existingFiles: DriveFile[]; // in the drive and the trash
+  existingFolders: DriveFolder[];
+  onProgress?: (progress: number) => void;
+}
+
+export interface ImportResult {
+  files: DriveFile[];   // records written, including overwritten ones
+  replaced: string[];   // ids of drive files that were overwritten
+  folders: DriveFolder[]; // folders created or, when overwriting, updated
+  skipped: number;
+  missing: number;      // files listed in the backup without contents
+}
+
+// Puts an overwritten file's earlier contents back after a failed import
+const restoreContents = async (backend: StorageBackend, id: string, previous: Blob | null) => {
+  try {
+    await backend.deleteChunks(id);
+    if (previous) await uploadChunks(backend, id, previous);
+  } catch (error) {
+    console.error("Failed to put the overwritten file back", error);
+  }
+};
+
+// Folders are matched by id: missing ones are created, existing ones are only
+// changed when overwriting. Files keep their ids unless imported as copies.
+// An overwritten file keeps its old contents until the imported ones and their
+// record are stored, and gets them back if that fails.
+export const importBackup = async ({ backend, opened, mode, existingFiles, existingFolders, onProgress }: ImportOptions): Promise<ImportResult> => {
+  const { backup, entries } = opened;
+  const existingById = new Map(existingFiles.map(f => [f.id, f]));
+  const existingFolderIds = new Set(existingFolders.map(f => f.id));
+  const folderIds = new Set([...existingFolderIds, ...backup.folders.map(f => f.id)]);
+  const result: ImportResult = { files: [], replaced: [], folders: [], skipped: 0, missing: 0 };
+
+  for (const folder of backup.folders) {
+    if (existingFolderIds.has(folder.id) && mode !== 'overwrite') continue;
+    const imported: DriveFolder = { ...folder, parentId: folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : null };
+    await backend.putFolder(imported);
+    result.folders.push(imported);
+  }
+
+  for (const [index, file] of backup.files.entries()) {
+    onProgress?.(index / backup.files.length);
+    const content = entries.get(contentPath(file.id));
+    if (!content) {
+      result.missing++;
+      continue;
+    }
+    const existing = existingById.get(file.id);
+    if (existing && mode === 'skip') {
+      result.skipped++;
+      continue;
+    }
+    const replacing = existing && mode === 'overwrite' ? existing : null;
+
+    const id = existing && mode === 'duplicate' ? crypto.randomUUID() : file.id;
+    const stored = new Set((replacing?.versions || []).map(v => v.id));
+    const versions = [];
+    for (const version of file.versions || []) {
+      const data = entries.get(versionPath(file.id, version.id));
+      if (!data) continue;
+      // Version ids are unique, so one the file already has holds the same bytes
+      if (!stored.has(version.id)) await backend.putVersion(id, version.id, data);
+      versions.push(version);
+    }
+
+    const { embedding, ...rest } = file;
+    const record: DriveFile = {
+      ...rest,
+      id,
+      parentId: file.parentId && folderIds.has(file.parentId) ? file.parentId : null,
+      ...(file.versions ? { versions } : {})
+    };
+
+    const previous = replacing ? await backend.get(id) : null;
+    try {
+      if (replacing) await backend.deleteChunks(id);
+      await uploadChunks(backend, id, content);
+      await backend.putMetadata(record);
+    } catch (error) {
+      if (replacing) await restoreContents(backend, id, previous);
+      throw error;
+    }
+
+    if (replacing) {
+      // Earlier versions the backup doesn't have are only dropped once it's in
+      const kept = new Set(versions.map(v => v.id));
+      for (const version of replacing.versions || []) {
+        if (!kept.has(version.id)) await backend.deleteVersion(id, version.id);
+      }
+      result.replaced.push(id);
+    }
+    result.files.push(record);
+  }
+  onProgress?.(1);
+  return result;
+};
+
+// Tag colors and collections already set here win over the backup's
+export const mergeTagColors = (current: TagColors, imported: TagColors): TagColors => ({ ...imported, ...current });
+
+export const mergeCollections = (current: Collections, imported: Collections): Collections => {
+  const searchIds = new Set(current.searches.map(s => s.id));
+  const albumIds = new Set(current.albums.map(a => a.id));
+  return {
+    searches: [...current.searches, ...imported.searches.filter(s => !searchIds.has(s.id))],
+    albums: [...current.albums, ...imported.albums.filter(a => !albumIds.has(a.id))]
+  };
+};
@@ -0,0 +1,85 @@
+import { DriveFile } from '../types';
+import { StorageBackend } from './storage';
+
+// Files are read and stored one slice at a time so large videos never sit in memory whole
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+export const getChunkCount = (size: number) => Math.max(1, Math.ceil(size / CHUNK_SIZE));
+
+// An upload whose chunks may be partly stored. Sessions are persisted so that an
+// upload interrupted by a reload can resume once the user picks the same file again.
+export interface UploadSession {
+  fileId: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  mimeType: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+const sessionsKey = (uid: string) => `super-drive-upload-sessions-${uid}`;
+
+export const loadUploadSessions = (uid: string): UploadSession[] => {
+  try {
+    return JSON.parse(localStorage.getItem(sessionsKey(uid)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeUploadSessions = (uid: string, sessions: UploadSession[]) => {
+  if (sessions.length === 0) localStorage.removeItem(sessionsKey(uid));
+  else localStorage.setItem(sessionsKey(uid), JSON.stringify(sessions));
+};
+
+export const saveUploadSession = (uid: string, session: UploadSession) => {
+  const others = loadUploadSessions(uid).filter(s => s.fileId !== session.fileId);
+  writeUploadSessions(uid, [...others, session]);
+};
+
+export const removeUploadSession = (uid: string, fileId: string) => {
+  writeUploadSessions(uid, loadUploadSessions(uid).filter(s => s.fileId !== fileId));
+};
+
+export const matchesUploadSession = (session: UploadSession, file: File) =>
+  session.name === file.name && session.size === file.size && session.lastModified === file.lastModified;
+
+export const findUploadSession = (uid: string, file: File) =>
+  loadUploadSessions(uid).find(session => matchesUploadSession(session, file));
+
+export const createUploadSession = (file: File, parentId: string | null): UploadSession => ({
+  fileId: crypto.randomUUID(),
+  name: file.name,
+  size: file.size,
+  lastModified: file.lastModified,
+  mimeType: file.type,
+  parentId,
+  createdAt: Date.now()
+});
+
+// Stores every chunk of `blob` that is not already stored under `fileId`
+export const uploadChunks = async (
+  backend: StorageBackend,
+  fileId: string,
+  blob: Blob,
+  options: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+) => {
+  const total = getChunkCount(blob.size);
+  const stored = new Set((await backend.listChunks(fileId)).filter(index => index < total));
+  let completed = stored.size;
+  options.onProgress?.(completed / total);
+
+  for (let index = 0; index < total; index++) {
+    if (stored.has(index)) continue;
+    options.signal?.throwIfAborted();
+    await backend.putChunk(fileId, index, blob.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE));
+    options.onProgress?.(++completed / total);
+  }
+};
+
+// Non-resumable convenience for writing a complete file in one go
+export const writeFileInChunks = async (backend: StorageBackend, file: DriveFile, blob: Blob) => {
+  await uploadChunks(backend, file.id, blob);
+  await backend.putMetadata(file);
+};
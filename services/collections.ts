@@ -0,0 +1,78 @@
+import { AlbumMatches, AutoAlbum, DriveFile, FilterState, SavedSearch } from '../types';
+import { loadPreference, savePreference } from './preferences';
+import { fileTags } from './tags';
+
+// Saved searches and auto-albums, kept per user like other preferences
+export interface Collections {
+  searches: SavedSearch[];
+  albums: AutoAlbum[];
+}
+
+const PREFERENCE_KEY = 'collections';
+
+export const loadCollections = (uid: string): Collections => ({
+  searches: [],
+  albums: [],
+  ...loadPreference<Partial<Collections>>(uid, PREFERENCE_KEY, {})
+});
+
+export const saveCollections = (uid: string, collections: Collections) => savePreference(uid, PREFERENCE_KEY, collections);
+
+// --- Saved Searches ---
+// Whether the current view is the one a saved search opens
+export const isSavedSearchActive = (saved: SavedSearch, filter: FilterState, folderId: string | null) =>
+  saved.filter.search === filter.search &&
+  saved.filter.mode === filter.mode &&
+  saved.filter.type === filter.type &&
+  saved.filter.dateRange === filter.dateRange &&
+  (saved.filter.album || '') === (filter.album || '') &&
+  // Folders only matter when the search doesn't already span the drive
+  (!!filter.search || !!filter.album || saved.folderId === folderId);
+
+// --- Auto-Albums ---
+export const buildAlbumPrompt = (file: DriveFile, albums: AutoAlbum[]) => [
+  'Decide which of these albums this file belongs in. Each album is described by a rule.',
+  ...albums.map(album => `- ${album.id}: ${album.rule}`),
+  '',
+  `File name: ${file.name}`,
+  ...(file.aiData?.summary ? [`Summary: ${file.aiData.summary}`] : []),
+  ...(fileTags(file).length > 0 ? [`Tags: ${fileTags(file).join(', ')}`] : []),
+  '',
+  'Return the ids of every album whose rule clearly fits the file, or none.'
+].join('\n');
+
+export const isInAlbum = (file: DriveFile, albumId: string) => !!file.albums?.ids.includes(albumId);
+
+// Albums created or edited since the file was last checked against them
+export const staleAlbums = (file: DriveFile, albums: AutoAlbum[]) =>
+  albums.filter(album => (file.albums?.checkedAt[album.id] ?? 0) < album.updatedAt);
+
+// Replaces the file's membership of the checked albums, dropping albums that no longer exist
+export const applyAlbumMatches = (
+  previous: AlbumMatches | undefined,
+  checked: AutoAlbum[],
+  matched: string[],
+  albums: AutoAlbum[],
+  now = Date.now()
+): AlbumMatches => {
+  const exists = new Set(albums.map(album => album.id));
+  const checkedIds = new Set(checked.map(album => album.id));
+  const kept = (previous?.ids || []).filter(id => exists.has(id) && !checkedIds.has(id));
+  const checkedAt = Object.fromEntries(Object.entries(previous?.checkedAt || {}).filter(([id]) => exists.has(id)));
+  checked.forEach(album => { checkedAt[album.id] = now; });
+  return { ids: [...kept, ...matched.filter(id => checkedIds.has(id))], checkedAt };
+};
+
+export const countAlbumFiles = (files: DriveFile[], albums: AutoAlbum[]) =>
+  Object.fromEntries(albums.map(album => [album.id, files.filter(file => isInAlbum(file, album.id)).length]));
+
+// The files that reference a deleted album, with the reference removed
+export const removeAlbum = (files: DriveFile[], albumId: string) => {
+  const changes = new Map<string, AlbumMatches>();
+  files.forEach(file => {
+    if (!file.albums || !(isInAlbum(file, albumId) || albumId in file.albums.checkedAt)) return;
+    const { [albumId]: _, ...checkedAt } = file.albums.checkedAt;
+    changes.set(file.id, { ids: file.albums.ids.filter(id => id !== albumId), checkedAt });
+  });
+  return changes;
+};
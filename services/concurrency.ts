@@ -0,0 +1,73 @@
+// Runs at most `concurrency` tasks at once; extra tasks wait in FIFO order.
+export const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return async <T,>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      next();
+    }
+  };
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const RATE_WINDOW = 60_000;
+
+// Lets at most `perMinute` tasks start in any rolling minute; callers wait their turn in FIFO order.
+export const createRateLimiter = (perMinute: number) => {
+  const starts: number[] = [];
+  let turn = Promise.resolve();
+
+  const acquire = async () => {
+    for (;;) {
+      const now = Date.now();
+      while (starts.length > 0 && now - starts[0] >= RATE_WINDOW) starts.shift();
+      if (starts.length < perMinute) {
+        starts.push(now);
+        return;
+      }
+      await sleep(RATE_WINDOW - (now - starts[0]));
+    }
+  };
+
+  return <T,>(task: () => Promise<T>): Promise<T> => {
+    const slot = turn.then(acquire);
+    turn = slot;
+    return slot.then(task);
+  };
+};
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelay: number; // ms before the first retry; doubles on each later one
+  maxDelay?: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (attempt: number, error: unknown, delay: number) => void;
+}
+
+// Retries with exponential backoff and jitter, rethrowing the last error
+export const retryWithBackoff = async <T,>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { attempts, baseDelay, maxDelay = 60_000, shouldRetry, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= attempts || !shouldRetry(error)) throw error;
+      const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+      onRetry?.(attempt, error, delay);
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('joins rows with CRLF and leaves empty cells blank', () => {
+    expect(toCsv([['a', 1, true], [null, undefined, 'b']])).toBe('a,1,true\r\n,,b');
+  });
+
+  it('quotes cells with separators, quotes or line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines']])).toBe('"a,b","say ""hi""","two\nlines"');
+  });
+
+  it('defuses text that spreadsheets would run as a formula', () => {
+    expect(toCsv([['=SUM(A1)', '+1', '@cmd', 'plain']])).toBe("'=SUM(A1),'+1,'@cmd,plain");
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsv([[-5]])).toBe('-5');
+  });
+});
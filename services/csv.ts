@@ -0,0 +1,14 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (cell: CsvCell) => {
+  if (cell === null || cell === undefined) return '';
+  let text = String(cell);
+  if (typeof cell === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180: CRLF line endings, fields with separators or quotes wrapped in quotes
+export const toCsv = (rows: CsvCell[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
@@ -0,0 +1,138 @@
+import { DriveFile, FileType } from '../types';
+import { AiClient, ChatPart, ChatTurn } from './ai';
+import { SearchHit, SearchRequest, stem, tokenizeText } from './searchIndex';
+import { blendScores, rankBySimilarity } from './embeddings';
+import { blobToBase64 } from './fileUtils';
+import { fileTags } from './tags';
+
+// --- Types ---
+export interface ChatSource {
+  id: string;
+  name: string;
+  type: FileType;
+}
+
+export const toChatSource = (file: DriveFile): ChatSource => ({ id: file.id, name: file.name, type: file.type });
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  sources: ChatSource[]; // files sent as context; citation [n] refers to sources[n - 1]
+  isStreaming?: boolean;
+  error?: string;
+}
+
+// --- Source Selection ---
+const MAX_CONTEXT_FILES = 5;
+const MAX_TERM_HITS = 200; // best keyword matches considered per question word
+const MAX_INLINE_BYTES = 15 * 1024 * 1024; // total file bytes attached to one question
+
+// Words that shape a question but say nothing about which files it is about
+const QUESTION_WORDS = new Set([
+  'what', 'which', 'who', 'when', 'where', 'why', 'how', 'was', 'were', 'did', 'does', 'do',
+  'my', 'me', 'our', 'we', 'i', 'there', 'this', 'that', 'these', 'those', 'about', 'tell',
+  'show', 'find', 'list', 'much', 'many', 'any', 'all', 'have', 'has', 'had', 'can', 'you'
+]);
+
+export const CHAT_INSTRUCTIONS = [
+  "You answer questions about the user's files in Super Drive.",
+  'Each file is introduced by a line like "[2] report.pdf" followed by its contents.',
+  'Base your answer only on those files and cite them inline by number, e.g. "The total was $420 [2].".',
+  "If the files don't contain the answer, say so instead of guessing."
+].join(' ');
+
+// Any question word can match (unlike the search bar, which requires all of them),
+// so each term is looked up separately and the scores are summed
+const keywordScores = async (question: string, search: (request: SearchRequest) => Promise<SearchHit[]>) => {
+  const terms = Array.from(new Set(tokenizeText(question).filter(w => !QUESTION_WORDS.has(w)).map(stem)));
+  const scores = new Map<string, number>();
+  const results = await Promise.all(terms.map(term => search({ words: [term], phrases: [], limit: MAX_TERM_HITS })));
+  results.flat().forEach(hit => scores.set(hit.id, (scores.get(hit.id) || 0) + hit.score));
+  return scores;
+};
+
+// Picks the files most likely to answer `question`, using the full-text index
+// and, where files have been embedded, semantic similarity
+export const findRelevantFiles = async (
+  ai: AiClient,
+  files: DriveFile[],
+  question: string,
+  search: (request: SearchRequest) => Promise<SearchHit[]>
+): Promise<DriveFile[]> => {
+  const keyword = await keywordScores(question, search);
+
+  let semantic = new Map<string, number>();
+  if (files.some(f => f.embedding?.model === ai.embeddingModel)) {
+    try {
+      const [vector] = await ai.embed([question], 'query');
+      semantic = rankBySimilarity(files, vector, ai.embeddingModel, ai.similarityThreshold);
+    } catch (error) {
+      console.error("Failed to embed question, using keyword matches only:", error);
+    }
+  }
+
+  const scores = blendScores(keyword, semantic);
+  return files
+    .filter(f => scores.has(f.id))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)
+    .slice(0, MAX_CONTEXT_FILES);
+};
+
+// --- Prompt ---
+const describeFile = (file: DriveFile, index: number) => [
+  `[${index + 1}] ${file.name}`,
+  `Type: ${file.type}, uploaded ${new Date(file.uploadDate).toISOString().slice(0, 10)}`,
+  file.aiData?.summary && `Summary: ${file.aiData.summary}`,
+  fileTags(file).length > 0 && `Tags: ${fileTags(file).join(', ')}`,
+  file.notes && `Notes: ${file.notes}`
+].filter(Boolean).join('\n');
+
+// Attaches each source's bytes while they fit in the inline budget; files that
+// don't fit (or that Gemini can't read) are described by their metadata only
+const sourceParts = async (sources: DriveFile[], loadBlob: (id: string) => Promise<Blob | null>): Promise<ChatPart[]> => {
+  let budget = MAX_INLINE_BYTES;
+  const parts: ChatPart[] = [];
+
+  for (const [index, file] of sources.entries()) {
+    parts.push({ text: describeFile(file, index) });
+    if (file.type === 'other' || file.size > budget) continue;
+
+    const blob = await loadBlob(file.id);
+    if (!blob) continue;
+    budget -= blob.size;
+    parts.push({ inlineData: { mimeType: file.mimeType || 'text/plain', data: await blobToBase64(blob) } });
+  }
+  return parts;
+};
+
+// Earlier turns are replayed as text, with the file list each question was asked
+// against, so follow-ups can refer back to them; only the new question carries file contents
+export const buildChatTurns = async (
+  history: ChatMessage[],
+  question: string,
+  sources: DriveFile[],
+  loadBlob: (id: string) => Promise<Blob | null>
+): Promise<ChatTurn[]> => {
+  // Questions that never got an answer are dropped along with their failed reply
+  const isAnswer = (message?: ChatMessage) => message?.role === 'model' && !message.error && !!message.text;
+  const turns: ChatTurn[] = history
+    .filter((message, i) => message.role === 'model' ? isAnswer(message) : isAnswer(history[i + 1]))
+    .map(message => ({
+      role: message.role,
+      parts: [{
+        text: message.role === 'user' && message.sources.length > 0
+          ? `${message.text}\n\n(Files provided: ${message.sources.map((s, i) => `[${i + 1}] ${s.name}`).join(', ')})`
+          : message.text
+      }]
+    }));
+
+  turns.push({
+    role: 'user',
+    parts: [
+      ...await sourceParts(sources, loadBlob),
+      { text: sources.length > 0 ? `Question: ${question}` : `Question: ${question}\n\n(No matching files were found.)` }
+    ]
+  });
+  return turns;
+};
@@ -0,0 +1,135 @@
+import { DriveFile } from '../types';
+import { createSha256 } from './sha256';
+
+// Differing bits (of 64) below which two images count as near-duplicates
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+// --- Hashing ---
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 of the file's bytes, read as a stream so large files aren't held in
+// memory; undefined if the file can't be read
+export const hashContent = async (blob: Blob): Promise<string | undefined> => {
+  try {
+    const hash = createSha256();
+    const reader = blob.stream().getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+    }
+    return hash.digest();
+  } catch (error) {
+    console.error("Failed to hash file contents", error);
+    return undefined;
+  }
+};
+
+// Difference hash: the image shrunk to 9x8 greyscale, one bit per pixel for
+// whether it is brighter than its right-hand neighbour. Resizing, recompression
+// and small edits barely change it. Undefined for formats the browser can't decode.
+export const perceptualHash = async (blob: Blob): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(blob, { resizeWidth: 9, resizeHeight: 8, resizeQuality: 'high' });
+    const canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 8;
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, 9, 8);
+    const grey = (x: number, y: number) => {
+      const i = (y * 9 + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+    const rows = new Uint8Array(8);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        if (grey(x, y) > grey(x + 1, y)) rows[y] |= 1 << (7 - x);
+      }
+    }
+    return toHex(rows);
+  } catch (error) {
+    console.warn("Could not compute a perceptual hash", error);
+    return undefined;
+  }
+};
+
+const popCount = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+};
+
+// 16 hex digits -> two 32-bit halves
+const splitHash = (hash: string): [number, number] => [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+
+export const hammingDistance = (a: string, b: string) => {
+  const [aHigh, aLow] = splitHash(a);
+  const [bHigh, bLow] = splitHash(b);
+  return popCount(aHigh ^ bHigh) + popCount(aLow ^ bLow);
+};
+
+// --- Grouping ---
+export interface DuplicateGroup {
+  key: string;
+  // Exact groups are byte-for-byte copies; similar ones are images that look alike
+  kind: 'exact' | 'similar';
+  files: DriveFile[];
+}
+
+// Files with the same contents and images that look alike end up in one group,
+// so a file is never listed twice
+export const findDuplicateGroups = (files: DriveFile[]): DuplicateGroup[] => {
+  const parent = files.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+  const byHash = new Map<string, number>();
+  files.forEach((file, i) => {
+    if (!file.contentHash) return;
+    const first = byHash.get(file.contentHash);
+    if (first === undefined) byHash.set(file.contentHash, i);
+    else union(i, first);
+  });
+
+  const images = files.flatMap((file, i) => file.type === 'image' && file.perceptualHash ? [{ i, hash: splitHash(file.perceptualHash) }] : []);
+  for (let a = 0; a < images.length; a++) {
+    for (let b = a + 1; b < images.length; b++) {
+      const [aHigh, aLow] = images[a].hash;
+      const [bHigh, bLow] = images[b].hash;
+      if (popCount(aHigh ^ bHigh) + popCount(aLow ^ bLow) <= NEAR_DUPLICATE_DISTANCE) union(images[a].i, images[b].i);
+    }
+  }
+
+  const components = new Map<number, DriveFile[]>();
+  files.forEach((file, i) => {
+    const root = find(i);
+    components.set(root, [...(components.get(root) || []), file]);
+  });
+
+  const wasted = (group: DuplicateGroup) => group.files.reduce((sum, f) => sum + f.size, 0) - Math.max(...group.files.map(f => f.size));
+  return Array.from(components.values())
+    .filter(members => members.length > 1)
+    .map((members): DuplicateGroup => {
+      const sorted = [...members].sort((a, b) => a.uploadDate - b.uploadDate);
+      const exact = !!sorted[0].contentHash && sorted.every(f => f.contentHash === sorted[0].contentHash);
+      return { key: sorted[0].id, kind: exact ? 'exact' : 'similar', files: sorted };
+    })
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'exact' ? -1 : 1) || wasted(b) - wasted(a));
+};
+
+// The copy to keep by default: the original upload of an exact copy, the
+// largest (usually highest quality) of similar images
+export const suggestKeeper = (group: DuplicateGroup) =>
+  group.kind === 'exact'
+    ? group.files[0]
+    : group.files.reduce((best, file) => file.size > best.size ? file : best);
+
+// Extra copies across all groups
+export const countDuplicates = (groups: DuplicateGroup[]) => groups.reduce((sum, group) => sum + group.files.length - 1, 0);
@@ -0,0 +1,68 @@
+import { DriveFile, FileEmbedding } from '../types';
+import { AiClient } from './ai';
+import { hashString } from './fileUtils';
+import { fileTags } from './tags';
+
+// Share of the blended score that comes from semantic similarity; the rest
+// comes from the (normalised) keyword score
+const SEMANTIC_WEIGHT = 0.6;
+
+// Only the start of a file's text is embedded; search covers the rest
+const EMBEDDED_CONTENT_LENGTH = 2000;
+
+// The text a file is embedded from: everything a person might describe it by
+export const embeddingText = (file: DriveFile) =>
+  [file.name, file.aiData?.summary, fileTags(file).join(', '), file.notes, file.content?.text.slice(0, EMBEDDED_CONTENT_LENGTH)]
+    .filter(Boolean)
+    .join('\n');
+
+// Files are embedded once analysis has produced a summary to describe them by
+export const needsEmbedding = (file: DriveFile, model: string) =>
+  file.aiData?.status === 'done' && !!file.aiData.summary &&
+  (file.embedding?.model !== model || file.embedding.sourceHash !== hashString(embeddingText(file)));
+
+export const embedFiles = async (ai: AiClient, files: DriveFile[]): Promise<Map<string, FileEmbedding>> => {
+  const texts = files.map(embeddingText);
+  const vectors = await ai.embed(texts, 'document');
+  return new Map(files.map((file, i) => [file.id, {
+    model: ai.embeddingModel,
+    vector: vectors[i],
+    sourceHash: hashString(texts[i])
+  }]));
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Similarity of every file embedded with `model` that clears `threshold`
+export const rankBySimilarity = (files: DriveFile[], queryVector: number[], model: string, threshold: number) => {
+  const scores = new Map<string, number>();
+  files.forEach(file => {
+    if (file.embedding?.model !== model) return;
+    const similarity = cosineSimilarity(queryVector, file.embedding.vector);
+    if (similarity >= threshold) scores.set(file.id, similarity);
+  });
+  return scores;
+};
+
+// Union of keyword and semantic matches. Keyword scores are unbounded, so they
+// are scaled against the best keyword hit before mixing with cosine similarity.
+export const blendScores = (keyword: Map<string, number>, semantic: Map<string, number>) => {
+  const maxKeyword = Math.max(0, ...Array.from(keyword.values()));
+  const blended = new Map<string, number>();
+  new Set([...keyword.keys(), ...semantic.keys()]).forEach(id => {
+    const keywordScore = maxKeyword > 0 ? (keyword.get(id) || 0) / maxKeyword : 0;
+    blended.set(id, SEMANTIC_WEIGHT * (semantic.get(id) || 0) + (1 - SEMANTIC_WEIGHT) * keywordScore);
+  });
+  return blended;
+};
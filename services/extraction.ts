@@ -0,0 +1,114 @@
+import { ContactDetails, DocumentKind, DriveFile, ExtractedData, FileType, LineItem } from '../types';
+import { toCsv } from './csv';
+
+// Receipts and cards arrive as photos or scans; other types are never classified
+export const EXTRACTABLE_TYPES: FileType[] = ['image', 'pdf'];
+
+export const DOCUMENT_KINDS: DocumentKind[] = ['invoice', 'receipt', 'id-card', 'business-card'];
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  'invoice': 'Invoice',
+  'receipt': 'Receipt',
+  'id-card': 'ID card',
+  'business-card': 'Business card'
+};
+
+// --- Prompts ---
+export const CLASSIFY_PROMPT = [
+  'Classify this file. Answer "invoice" for a bill requesting payment, "receipt" for proof of a completed purchase,',
+  '"id-card" for an identity document such as an ID card, passport or driving licence, "business-card" for a business card,',
+  'and "none" for anything else, including photos that merely contain one of these in the background.'
+].join(' ');
+
+const EXTRACTION_PROMPTS: Record<DocumentKind, string> = {
+  'invoice': 'Extract the data from this invoice. vendor is the company issuing it, date is the invoice date, documentNumber the invoice number. Include every line item, and the contact details of the vendor.',
+  'receipt': 'Extract the data from this receipt. vendor is the shop or merchant, date is the purchase date, documentNumber the receipt or transaction number. Include every purchased item, and any contact details printed on it.',
+  'id-card': 'Extract the data from this identity document. vendor is the issuing authority, date is the expiry date, documentNumber the document number. Put the holder in contact.name and their address in contact.address. Leave totals and line items empty.',
+  'business-card': 'Extract the contact details from this business card into contact. vendor is the company. Leave dates, totals and line items empty.'
+};
+
+export const buildExtractionPrompt = (kind: DocumentKind) => [
+  EXTRACTION_PROMPTS[kind],
+  'Write dates as YYYY-MM-DD and currencies as ISO 4217 codes such as USD or EUR. Amounts are plain numbers without currency symbols.',
+  'Omit anything that is not on the document rather than guessing.'
+].join('\n');
+
+// --- Status Helpers ---
+export const isExtractable = (file: DriveFile) => EXTRACTABLE_TYPES.includes(file.type);
+
+export const isExtractionActive = (file: DriveFile) =>
+  file.extraction?.status === 'pending' || file.extraction?.status === 'running';
+
+export const emptyExtractedData = (): ExtractedData => ({ lineItems: [], contact: {} });
+
+// --- Normalisation ---
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CONTACT_KEYS: (keyof ContactDetails)[] = ['name', 'company', 'jobTitle', 'email', 'phone', 'address', 'website'];
+
+const asText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+const asAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Drops empty and ill-typed values, so model output and form input end up in the same shape
+export const normalizeExtractedData = (raw: unknown): ExtractedData => {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const contactSource = (source.contact && typeof source.contact === 'object' ? source.contact : {}) as Record<string, unknown>;
+  const date = asText(source.date);
+  const currency = asText(source.currency);
+
+  const data: ExtractedData = {
+    vendor: asText(source.vendor),
+    date: date && DATE_PATTERN.test(date) ? date : undefined,
+    documentNumber: asText(source.documentNumber),
+    currency: currency?.toUpperCase(),
+    subtotal: asAmount(source.subtotal),
+    tax: asAmount(source.tax),
+    total: asAmount(source.total),
+    lineItems: (Array.isArray(source.lineItems) ? source.lineItems : [])
+      .map((item: Record<string, unknown>): LineItem => ({
+        description: asText(item?.description) || '',
+        quantity: asAmount(item?.quantity),
+        unitPrice: asAmount(item?.unitPrice),
+        amount: asAmount(item?.amount)
+      }))
+      .filter(item => item.description || item.amount !== undefined),
+    contact: Object.fromEntries(
+      CONTACT_KEYS.map(key => [key, asText(contactSource[key])]).filter(([, value]) => value)
+    )
+  };
+  // Undefined keys would be dropped by storage anyway; leaving them out keeps records comparable
+  (Object.keys(data) as (keyof ExtractedData)[]).forEach(key => {
+    if (data[key] === undefined) delete data[key];
+  });
+  return data;
+};
+
+// --- CSV Export ---
+const SUMMARY_COLUMNS = ['File', 'Type', 'Vendor', 'Date', 'Number', 'Currency', 'Subtotal', 'Tax', 'Total'];
+const CONTACT_COLUMNS = ['Name', 'Company', 'Job title', 'Email', 'Phone', 'Address', 'Website'];
+const LINE_ITEM_COLUMNS = ['Item', 'Quantity', 'Unit price', 'Amount'];
+
+const summaryCells = (file: DriveFile, data: ExtractedData) => [
+  file.name,
+  file.extraction?.kind ? DOCUMENT_KIND_LABELS[file.extraction.kind] : '',
+  data.vendor, data.date, data.documentNumber, data.currency, data.subtotal, data.tax, data.total
+];
+
+const contactCells = (data: ExtractedData) => CONTACT_KEYS.map(key => data.contact[key]);
+
+// Files with finished extractions of the given kinds
+export const filesWithExtraction = (files: DriveFile[], kinds: DocumentKind[]) =>
+  files.filter(file => file.extraction?.status === 'done' && file.extraction.data && file.extraction.kind && kinds.includes(file.extraction.kind));
+
+// One row per file, or with `lineItems` one row per line item with the
+// document's fields repeated on each (files without items still get a row)
+export const buildExtractionCsv = (files: DriveFile[], { lineItems }: { lineItems: boolean }) => {
+  const header = [...SUMMARY_COLUMNS, ...CONTACT_COLUMNS, ...(lineItems ? LINE_ITEM_COLUMNS : [])];
+  const rows = files.flatMap(file => {
+    const data = file.extraction?.data;
+    if (!data) return [];
+    const cells = [...summaryCells(file, data), ...contactCells(data)];
+    if (!lineItems || data.lineItems.length === 0) return [cells];
+    return data.lineItems.map(item => [...cells, item.description, item.quantity, item.unitPrice, item.amount]);
+  });
+  return toCsv([header, ...rows]);
+};
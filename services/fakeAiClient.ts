@@ -0,0 +1,112 @@
+import { DocumentKind } from '../types';
+import { AiClient } from './ai';
+import { stem, tokenizeText } from './searchIndex';
+
+const DIMENSIONS = 256;
+
+// Filename words the fake classifier recognises documents by
+const KIND_KEYWORDS: [DocumentKind, RegExp][] = [
+  ['invoice', /invoice|bill/i],
+  ['receipt', /receipt/i],
+  ['id-card', /passport|licen[cs]e|\bid\b/i],
+  ['business-card', /business.?card|contact/i]
+];
+
+// FNV-1a, used to spread words over the vector's dimensions
+const hashWord = (word: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Bag-of-stems vector: texts sharing words end up close together
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  tokenizeText(text).forEach(word => {
+    const hash = hashWord(stem(word));
+    vector[hash % DIMENSIONS] += hash & 0x100 ? 1 : -1;
+  });
+  const length = Math.hypot(...vector) || 1;
+  return vector.map(v => v / length);
+};
+
+// Offline stand-in for Gemini, for development and tests without an API key.
+export const createFakeAiClient = (): AiClient => ({
+  analysisModel: 'fake-analyzer',
+  embeddingModel: 'fake-bag-of-words',
+  extractionModel: 'fake-extractor',
+  transcriptionModel: 'fake-transcriber',
+  ocrModel: 'fake-ocr',
+  similarityThreshold: 0.2,
+
+  async analyze(file, _blob, profile) {
+    const words = Array.from(new Set(tokenizeText(file.name.replace(/\.[^.]+$/, ''))));
+    const placeholders = { 'string': `fake ${file.type}`, 'number': 0, 'boolean': false, 'string[]': [] as string[] };
+    return {
+      summary: `A ${file.type} file named ${file.name}.`,
+      tags: [file.type, ...words].slice(0, profile.maxTags),
+      extra: Object.fromEntries(profile.fields.map(field => [field.key, placeholders[field.type]]))
+    };
+  },
+
+  async classifyDocument(file) {
+    return KIND_KEYWORDS.find(([, pattern]) => pattern.test(file.name))?.[0] ?? null;
+  },
+
+  async extractDocument(file, _blob, kind) {
+    const date = new Date(file.uploadDate).toISOString().slice(0, 10);
+    if (kind === 'business-card' || kind === 'id-card') {
+      return { vendor: 'Fake Co', date, lineItems: [], contact: { name: 'Jane Doe', company: 'Fake Co', email: 'jane@example.com' } };
+    }
+    return {
+      vendor: 'Fake Store',
+      date,
+      documentNumber: file.id.slice(0, 8),
+      currency: 'USD',
+      subtotal: 10,
+      tax: 1,
+      total: 11,
+      lineItems: [{ description: 'Sample item', quantity: 2, unitPrice: 5, amount: 10 }],
+      contact: { phone: '+1 555 0100' }
+    };
+  },
+
+  // One short segment per word of the file name, so seeking and highlighting can be exercised
+  async transcribe(file) {
+    const words = tokenizeText(file.name.replace(/\.[^.]+$/, ''));
+    return {
+      language: 'en',
+      segments: words.map((word, i) => ({ start: i * 3, end: i * 3 + 2.5, text: `This part is about ${word}.` }))
+    };
+  },
+
+  async readText(file) {
+    const words = tokenizeText(file.name.replace(/\.[^.]+$/, ''));
+    return words.length > 0 ? `Text read from ${file.name}\n${words.join(' ')}` : '';
+  },
+
+  // A file fits an album when its name, summary or tags share a word with the rule
+  async matchAlbums(file, _blob, albums) {
+    const words = new Set(tokenizeText([file.name, file.aiData?.summary || '', ...(file.aiData?.tags || [])].join(' ')).map(stem));
+    return albums.filter(album => tokenizeText(album.rule).some(word => words.has(stem(word)))).map(album => album.id);
+  },
+
+  async embed(texts) {
+    return texts.map(embedText);
+  },
+
+  // Echoes which files it was given, word by word, so streaming and citations can be exercised
+  async *chat(turns) {
+    const last = turns[turns.length - 1];
+    const sources = last.parts
+      .map(part => 'text' in part ? /^\[(\d+)\] (.+?)(?:\n|$)/.exec(part.text) : null)
+      .filter((match): match is RegExpExecArray => !!match);
+    const answer = sources.length > 0
+      ? `I looked at ${sources.map(([, n, name]) => `${name} [${n}]`).join(', ')}. This is a canned answer from the offline client.`
+      : "I couldn't find any files related to that question.";
+    for (const word of answer.split(/(?<= )/)) yield word;
+  }
+});
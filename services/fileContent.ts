@@ -0,0 +1,33 @@
+import { DriveFile, FileContent, FileType } from '../types';
+
+// Scans and screenshots only give up their text to OCR
+export const OCR_TYPES: FileType[] = ['image', 'pdf'];
+
+// Stored with the file's metadata, which Firestore caps at 1 MiB per document
+export const MAX_STORED_TEXT_LENGTH = 200_000;
+
+export const OCR_PROMPT = [
+  'Transcribe all text in this file exactly as written, in reading order.',
+  'Keep paragraph and line breaks, and write table rows as cells separated by tabs.',
+  'Output only the text itself, or nothing at all if the file contains no text.'
+].join('\n');
+
+export const isOcrCandidate = (file: DriveFile) => OCR_TYPES.includes(file.type);
+
+export const isContentActive = (file: DriveFile) =>
+  file.content?.status === 'pending' || file.content?.status === 'running';
+
+// A finished content record, cut down to what can be stored
+export const toFileContent = (text: string, source: FileContent['source'], truncated = false): FileContent => ({
+  status: 'done',
+  text: text.slice(0, MAX_STORED_TEXT_LENGTH),
+  source,
+  ...(truncated || text.length > MAX_STORED_TEXT_LENGTH ? { truncated: true } : {}),
+  extractedAt: Date.now()
+});
+
+// Reads at most enough bytes for the stored length (UTF-8 uses up to 4 per character)
+export const decodeTextContent = async (blob: Blob): Promise<FileContent> => {
+  const maxBytes = MAX_STORED_TEXT_LENGTH * 4;
+  return toFileContent(await blob.slice(0, maxBytes).text(), 'decoded', blob.size > maxBytes);
+};
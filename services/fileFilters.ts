@@ -0,0 +1,152 @@
+import { DriveFile, FileType, FilterState, SortOption } from '../types';
+import { isInFolder } from './folders';
+import { matchesQuery, Query } from './query';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'date-desc', label: 'Newest first' },
+  { value: 'date-asc', label: 'Oldest first' },
+  { value: 'name-asc', label: 'Name (A-Z)' },
+  { value: 'name-desc', label: 'Name (Z-A)' },
+  { value: 'size-desc', label: 'Largest first' },
+  { value: 'relevance', label: 'Best match' }
+];
+
+export const DATE_RANGE_OPTIONS: { value: FilterState['dateRange']; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Past 7 days' },
+  { value: 'month', label: 'Past 30 days' }
+];
+
+export const matchesDateRange = (file: DriveFile, range: FilterState['dateRange'], now = Date.now()) => {
+  switch (range) {
+    case 'today': return new Date(file.uploadDate).toDateString() === new Date(now).toDateString();
+    case 'week': return file.uploadDate >= now - 7 * DAY_MS;
+    case 'month': return file.uploadDate >= now - 30 * DAY_MS;
+    default: return true;
+  }
+};
+
+interface FilterScope {
+  folderId: string | null;
+  // The query's structured terms, checked here against file metadata
+  structured: Query;
+  // Files the search index matched for the free-text terms; absent when there are none
+  hits?: { has: (id: string) => boolean };
+}
+
+// The files a filter shows. Searches and albums span the whole drive; otherwise
+// only the folder's own files are shown.
+export const applyFilter = (files: DriveFile[], filter: FilterState, { folderId, structured, hits }: FilterScope) => {
+  let result = filter.search || filter.album ? files : files.filter(f => isInFolder(f, folderId));
+  if (filter.album) result = result.filter(f => f.albums?.ids.includes(filter.album!));
+  if (hits) result = result.filter(f => hits.has(f.id));
+  if (filter.search) result = result.filter(f => matchesQuery(f, structured));
+  if (filter.type !== 'all') result = result.filter(f => f.type === filter.type);
+  if (filter.dateRange !== 'all') result = result.filter(f => matchesDateRange(f, filter.dateRange));
+  return result;
+};
+
+// `scores` (from the search index) is only used by the relevance sort
+export const sortFiles = (files: DriveFile[], sort: SortOption, scores?: Map<string, number>): DriveFile[] => {
+  const sorted = [...files];
+  switch (sort) {
+    case 'relevance':
+      if (scores) return sorted.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0) || b.uploadDate - a.uploadDate);
+      return sorted.sort((a, b) => b.uploadDate - a.uploadDate);
+    case 'date-asc': return sorted.sort((a, b) => a.uploadDate - b.uploadDate);
+    case 'name-asc': return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    case 'name-desc': return sorted.sort((a, b) => b.name.localeCompare(a.name, undefined, { numeric: true }));
+    case 'size-desc': return sorted.sort((a, b) => b.size - a.size);
+    default: return sorted.sort((a, b) => b.uploadDate - a.uploadDate);
+  }
+};
+
+// --- Grouping ---
+export interface FileGroup {
+  label: string;
+  files: DriveFile[];
+}
+
+const dateGroupLabel = (file: DriveFile) => {
+  const date = new Date(file.uploadDate);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', year: 'numeric' }).format(date);
+};
+
+const nameGroupLabel = (file: DriveFile) => {
+  const first = file.name.charAt(0).toUpperCase();
+  return /[A-Z]/.test(first) ? first : '#';
+};
+
+const sizeGroupLabel = (file: DriveFile) => {
+  if (file.size >= 100 * 1024 * 1024) return 'Large (over 100 MB)';
+  if (file.size >= 1024 * 1024) return 'Medium (1 MB - 100 MB)';
+  return 'Small (under 1 MB)';
+};
+
+// Groups already-sorted files into headed sections that follow the sort order
+export const groupFiles = (files: DriveFile[], sort: SortOption): FileGroup[] => {
+  if (sort === 'relevance') return files.length > 0 ? [{ label: 'Best matches', files }] : [];
+  const labelFor = sort.startsWith('name') ? nameGroupLabel : sort === 'size-desc' ? sizeGroupLabel : dateGroupLabel;
+  const groups: FileGroup[] = [];
+  files.forEach(file => {
+    const label = labelFor(file);
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) last.files.push(file);
+    else groups.push({ label, files: [file] });
+  });
+  return groups;
+};
+
+// --- URL State ---
+// Sort and filter live in the query string (?q=&type=&date=&album=&sort=) so views can be bookmarked
+const FILE_TYPES: (FileType | 'all')[] = ['all', 'image', 'text', 'pdf', 'video', 'audio', 'other'];
+
+export const DEFAULT_FILTER: FilterState = { search: '', mode: 'keyword', type: 'all', dateRange: 'all' };
+export const DEFAULT_SORT: SortOption = 'date-desc';
+
+export const readViewFromUrl = (search = window.location.search): { filter: FilterState; sort: SortOption } => {
+  const params = new URLSearchParams(search);
+  const type = params.get('type') as FileType | 'all' | null;
+  const dateRange = params.get('date') as FilterState['dateRange'] | null;
+  const sort = params.get('sort') as SortOption | null;
+
+  return {
+    filter: {
+      search: params.get('q') || '',
+      mode: params.get('mode') === 'semantic' ? 'semantic' : DEFAULT_FILTER.mode,
+      type: type && FILE_TYPES.includes(type) ? type : DEFAULT_FILTER.type,
+      dateRange: dateRange && DATE_RANGE_OPTIONS.some(o => o.value === dateRange) ? dateRange : DEFAULT_FILTER.dateRange,
+      ...(params.get('album') ? { album: params.get('album')! } : {})
+    },
+    sort: sort && SORT_OPTIONS.some(o => o.value === sort) ? sort : DEFAULT_SORT
+  };
+};
+
+export const writeViewToUrl = (filter: FilterState, sort: SortOption) => {
+  const params = new URLSearchParams(window.location.search);
+  const set = (key: string, value: string, fallback: string) => {
+    if (value && value !== fallback) params.set(key, value);
+    else params.delete(key);
+  };
+  set('q', filter.search, '');
+  set('mode', filter.mode, DEFAULT_FILTER.mode);
+  set('type', filter.type, DEFAULT_FILTER.type);
+  set('date', filter.dateRange, DEFAULT_FILTER.dateRange);
+  set('album', filter.album || '', '');
+  set('sort', sort, DEFAULT_SORT);
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(null, '', url);
+  }
+};
@@ -0,0 +1,109 @@
+import { collection, doc, getDoc, getDocs, setDoc, updateDoc, deleteDoc, deleteField } from 'firebase/firestore';
+import { ref, uploadBytes, getBlob, deleteObject, listAll } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { DriveFile, DriveFolder } from '../types';
+import { StorageBackend } from './storage';
+
+// Metadata lives in Firestore under users/{uid}/files/{id} and users/{uid}/folders/{id};
+// bytes live in Cloud Storage as users/{uid}/files/{id}/chunks/{index}, and
+// earlier versions as users/{uid}/files/{id}/versions/{versionId}.
+const filesCollection = (uid: string) => collection(db, 'users', uid, 'files');
+const fileDoc = (uid: string, id: string) => doc(db, 'users', uid, 'files', id);
+const foldersCollection = (uid: string) => collection(db, 'users', uid, 'folders');
+const folderDoc = (uid: string, id: string) => doc(db, 'users', uid, 'folders', id);
+const chunksRef = (uid: string, id: string) => ref(storage, `users/${uid}/files/${id}/chunks`);
+const chunkRef = (uid: string, id: string, index: number) => ref(storage, `users/${uid}/files/${id}/chunks/${index}`);
+const versionsRef = (uid: string, id: string) => ref(storage, `users/${uid}/files/${id}/versions`);
+const versionRef = (uid: string, id: string, versionId: string) => ref(storage, `users/${uid}/files/${id}/versions/${versionId}`);
+
+const listChunkIndexes = async (uid: string, id: string) => {
+  const result = await listAll(chunksRef(uid, id));
+  return result.items.map(item => Number(item.name)).sort((a, b) => a - b);
+};
+
+// Firestore rejects `undefined` field values
+const toFirestore = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// In an update, an undefined field means "remove it", which Firestore spells deleteField()
+const toFirestoreUpdate = (updates: Partial<DriveFile>) =>
+  Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : toFirestore(value)]));
+
+export const createFirebaseBackend = (uid: string): StorageBackend => ({
+  async list() {
+    const snapshot = await getDocs(filesCollection(uid));
+    return snapshot.docs.map(d => d.data() as DriveFile);
+  },
+
+  async get(id) {
+    const snapshot = await getDoc(fileDoc(uid, id));
+    if (!snapshot.exists()) return null;
+    const indexes = await listChunkIndexes(uid, id);
+    if (indexes.length === 0) return null;
+    const chunks = await Promise.all(indexes.map(index => getBlob(chunkRef(uid, id, index))));
+    return new Blob(chunks, { type: (snapshot.data() as DriveFile).mimeType });
+  },
+
+  async putChunk(id, index, chunk) {
+    await uploadBytes(chunkRef(uid, id, index), chunk);
+  },
+
+  async listChunks(id) {
+    return listChunkIndexes(uid, id);
+  },
+
+  async putMetadata(file) {
+    await setDoc(fileDoc(uid, file.id), toFirestore(file));
+  },
+
+  async delete(id) {
+    await deleteDoc(fileDoc(uid, id));
+    const [indexes, versions] = await Promise.all([listChunkIndexes(uid, id), listAll(versionsRef(uid, id))]);
+    await Promise.all([
+      ...indexes.map(index => deleteObject(chunkRef(uid, id, index))),
+      ...versions.items.map(item => deleteObject(item))
+    ]);
+  },
+
+  async deleteChunks(id) {
+    const indexes = await listChunkIndexes(uid, id);
+    await Promise.all(indexes.map(index => deleteObject(chunkRef(uid, id, index))));
+  },
+
+  async updateMetadata(id, updates) {
+    await updateDoc(fileDoc(uid, id), toFirestoreUpdate(updates));
+  },
+
+  async listFolders() {
+    const snapshot = await getDocs(foldersCollection(uid));
+    return snapshot.docs.map(d => d.data() as DriveFolder);
+  },
+
+  async putFolder(folder) {
+    await setDoc(folderDoc(uid, folder.id), toFirestore(folder));
+  },
+
+  async deleteFolder(id) {
+    await deleteDoc(folderDoc(uid, id));
+  },
+
+  async putVersion(id, versionId, blob) {
+    await uploadBytes(versionRef(uid, id, versionId), blob);
+  },
+
+  async getVersion(id, versionId) {
+    try {
+      return await getBlob(versionRef(uid, id, versionId));
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'storage/object-not-found') return null;
+      throw error;
+    }
+  },
+
+  async deleteVersion(id, versionId) {
+    try {
+      await deleteObject(versionRef(uid, id, versionId));
+    } catch (error) {
+      if ((error as { code?: string })?.code !== 'storage/object-not-found') throw error;
+    }
+  }
+});
@@ -0,0 +1,75 @@
+import { DriveFile, DriveFolder } from '../types';
+
+// MIME type used when dragging files/folders inside the app (as opposed to OS file drops)
+export const DRIVE_ITEM_MIME = 'application/x-super-drive-item';
+
+export interface DraggedItem {
+  kind: 'file' | 'folder';
+  id: string;
+}
+
+export const readDraggedItem = (dataTransfer: DataTransfer): DraggedItem | null => {
+  const raw = dataTransfer.getData(DRIVE_ITEM_MIME);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+export const isInternalDrag = (dataTransfer: DataTransfer) => dataTransfer.types.includes(DRIVE_ITEM_MIME);
+
+// Root-first chain of folders leading to (and including) folderId
+export const getFolderPath = (folders: DriveFolder[], folderId: string | null): DriveFolder[] => {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  const path: DriveFolder[] = [];
+  let current = folderId ? byId.get(folderId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// folderId plus every folder nested below it
+export const getDescendantFolderIds = (folders: DriveFolder[], folderId: string): Set<string> => {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach(f => {
+      if (f.parentId && ids.has(f.parentId) && !ids.has(f.id)) {
+        ids.add(f.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+export const isInFolder = (file: DriveFile, folderId: string | null) => (file.parentId ?? null) === folderId;
+
+// A folder cannot be moved into itself or one of its descendants
+export const canMoveFolder = (folders: DriveFolder[], folderId: string, targetId: string | null) =>
+  targetId === null || !getDescendantFolderIds(folders, folderId).has(targetId);
+
+// Walks (and creates where missing) a chain of folder names below rootId.
+// Returns the id of the deepest folder and any folders that had to be created.
+export const resolveFolderPath = (
+  folders: DriveFolder[],
+  rootId: string | null,
+  names: string[]
+): { folderId: string | null; created: DriveFolder[] } => {
+  const created: DriveFolder[] = [];
+  let parentId = rootId;
+  for (const name of names) {
+    let folder = [...folders, ...created].find(f => f.parentId === parentId && f.name === name);
+    if (!folder) {
+      folder = { id: crypto.randomUUID(), name, parentId, createdAt: Date.now() };
+      created.push(folder);
+    }
+    parentId = folder.id;
+  }
+  return { folderId: parentId, created };
+};
@@ -1,5 +1,17 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DriveFile } from '../types';
+import { FileState, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { AnalysisFieldType, AnalysisProfile, AutoAlbum, DocumentKind, DriveFile, ExtractedData } from '../types';
+import { blobToBase64 } from './fileUtils';
+import { AiClient, AnalysisResult, ChatTurn, TranscriptionResult } from './ai';
+import { buildAnalysisPrompt, pickExtraFields } from './analysisProfiles';
+import { buildExtractionPrompt, CLASSIFY_PROMPT, DOCUMENT_KINDS, normalizeExtractedData } from './extraction';
+import { normalizeSegments, TRANSCRIBE_PROMPT } from './transcripts';
+import { OCR_PROMPT } from './fileContent';
+import { buildAlbumPrompt } from './collections';
+
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+const CLASSIFY_MODEL = 'gemini-2.5-flash-lite'; // a one-word answer doesn't need the bigger model
+const EMBEDDING_MODEL = 'text-embedding-004';
+const EMBED_BATCH_SIZE = 100; // API limit per embedContent call
 
 const getClient = () => {
   const apiKey = process.env.API_KEY;
@@ -7,53 +19,290 @@ const getClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export const analyzeFileContent = async (file: DriveFile): Promise<{ summary: string; tags: string[] }> => {
+// --- File Parts ---
+// Gemini caps inline request bodies at 20 MB and base64 inflates data by a third,
+// so larger files are uploaded through the Files API instead
+const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+const FILE_POLL_INTERVAL = 2000;
+
+// One upload per blob, shared by the stages and retries that send it. The Files
+// API deletes uploads after 48 hours.
+const uploads = new WeakMap<Blob, Promise<Part>>();
+
+const uploadFile = async (file: DriveFile, blob: Blob): Promise<Part> => {
+  const ai = getClient();
+  let uploaded = await ai.files.upload({ file: blob, config: { mimeType: file.mimeType, displayName: file.name } });
+  // Audio, video and PDFs are processed before they can be used
+  while (uploaded.state === FileState.PROCESSING && uploaded.name) {
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL));
+    uploaded = await ai.files.get({ name: uploaded.name });
+  }
+  if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+    throw new Error(uploaded.error?.message || "Gemini could not process the uploaded file");
+  }
+  return { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType || file.mimeType } };
+};
+
+const toFilePart = async (file: DriveFile, blob: Blob): Promise<Part> => {
+  if (blob.size <= MAX_INLINE_BYTES) return { inlineData: { mimeType: file.mimeType, data: await blobToBase64(blob) } };
+  let upload = uploads.get(blob);
+  if (!upload) {
+    upload = uploadFile(file, blob);
+    uploads.set(blob, upload);
+    upload.catch(() => uploads.delete(blob));
+  }
+  return upload;
+};
+
+const FIELD_SCHEMAS: Record<AnalysisFieldType, Schema> = {
+  'string': { type: Type.STRING },
+  'number': { type: Type.NUMBER },
+  'boolean': { type: Type.BOOLEAN },
+  'string[]': { type: Type.ARRAY, items: { type: Type.STRING } }
+};
+
+// The profile's extra fields are added next to the summary and tags every profile gets
+const buildResponseSchema = (profile: AnalysisProfile): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    tags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    ...Object.fromEntries(profile.fields.map(field => [field.key, { ...FIELD_SCHEMAS[field.type], description: field.description }]))
+  },
+  required: ["summary", "tags", ...profile.fields.map(field => field.key)]
+});
+
+// Throws on failure; retries and status tracking are handled by the analysis queue.
+// The file is always sent inline, so the queue only asks for files up to the inline cap.
+export const analyzeFileContent = async (file: DriveFile, blob: Blob, profile: AnalysisProfile): Promise<AnalysisResult> => {
   const ai = getClient();
-  
-  // Clean base64 string (remove data URL prefix if present)
-  const base64Data = file.data.split(',')[1] || file.data;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: file.mimeType,
-              data: base64Data
-            }
-          },
-          {
-            text: "Analyze this file. Provide a concise summary (max 2 sentences) and a list of 3-5 relevant tags to help categorize it. Focus on the visual content for images/videos, audio content for music/audio, or text content for documents."
+
+  const base64Data = await blobToBase64(blob);
+
+  const response = await ai.models.generateContent({
+    model: profile.model || ANALYSIS_MODEL,
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: file.mimeType,
+            data: base64Data
           }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            tags: { 
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            }
-          },
-          required: ["summary", "tags"]
+        },
+        {
+          text: buildAnalysisPrompt(profile)
         }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: buildResponseSchema(profile)
+    }
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("Gemini returned an empty response");
+
+  const result = JSON.parse(text);
+  if (typeof result.summary !== 'string' || !Array.isArray(result.tags)) {
+    throw new Error("Gemini returned an unexpected response shape");
+  }
+  return {
+    summary: result.summary,
+    tags: result.tags.map(String).slice(0, profile.maxTags),
+    extra: pickExtraFields(profile, result)
+  };
+};
+
+// --- Document Extraction ---
+const CLASSIFY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, format: 'enum', enum: [...DOCUMENT_KINDS, 'none'] }
+  },
+  required: ["kind"]
+};
+
+const EXTRACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    vendor: { type: Type.STRING },
+    date: { type: Type.STRING, description: 'YYYY-MM-DD' },
+    documentNumber: { type: Type.STRING },
+    currency: { type: Type.STRING, description: 'ISO 4217 code' },
+    subtotal: { type: Type.NUMBER },
+    tax: { type: Type.NUMBER },
+    total: { type: Type.NUMBER },
+    lineItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          unitPrice: { type: Type.NUMBER },
+          amount: { type: Type.NUMBER }
+        },
+        required: ["description"]
       }
+    },
+    contact: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        company: { type: Type.STRING },
+        jobTitle: { type: Type.STRING },
+        email: { type: Type.STRING },
+        phone: { type: Type.STRING },
+        address: { type: Type.STRING },
+        website: { type: Type.STRING }
+      }
+    }
+  },
+  required: ["lineItems", "contact"]
+};
+
+// Sends the file with a prompt and parses the JSON the schema asks for
+const generateJson = async (model: string, file: DriveFile, blob: Blob, prompt: string, responseSchema: Schema) => {
+  const ai = getClient();
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        await toFilePart(file, blob),
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema
+    }
+  });
+
+  const text = response.text;
+  if (!text) throw new Error("Gemini returned an empty response");
+  return JSON.parse(text);
+};
+
+export const classifyDocument = async (file: DriveFile, blob: Blob): Promise<DocumentKind | null> => {
+  const result = await generateJson(CLASSIFY_MODEL, file, blob, CLASSIFY_PROMPT, CLASSIFY_SCHEMA);
+  return DOCUMENT_KINDS.find(kind => kind === result.kind) ?? null;
+};
+
+export const extractDocument = async (file: DriveFile, blob: Blob, kind: DocumentKind): Promise<ExtractedData> =>
+  normalizeExtractedData(await generateJson(ANALYSIS_MODEL, file, blob, buildExtractionPrompt(kind), EXTRACTION_SCHEMA));
+
+// --- Transcription ---
+const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    language: { type: Type.STRING },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: 'Seconds from the start' },
+          end: { type: Type.NUMBER, description: 'Seconds from the start' },
+          speaker: { type: Type.STRING },
+          text: { type: Type.STRING }
+        },
+        required: ["start", "end", "text"]
+      }
+    }
+  },
+  required: ["segments"]
+};
+
+export const transcribeMedia = async (file: DriveFile, blob: Blob): Promise<TranscriptionResult> => {
+  const result = await generateJson(ANALYSIS_MODEL, file, blob, TRANSCRIBE_PROMPT, TRANSCRIPT_SCHEMA);
+  if (!Array.isArray(result.segments)) throw new Error("Gemini returned an unexpected response shape");
+  return {
+    ...(typeof result.language === 'string' && result.language ? { language: result.language } : {}),
+    segments: normalizeSegments(result.segments)
+  };
+};
+
+// --- OCR ---
+// Plain text rather than JSON, so long documents don't pay for escaping
+export const readFileText = async (file: DriveFile, blob: Blob): Promise<string> => {
+  const ai = getClient();
+  const response = await ai.models.generateContent({
+    model: ANALYSIS_MODEL,
+    contents: {
+      parts: [
+        await toFilePart(file, blob),
+        { text: OCR_PROMPT }
+      ]
+    }
+  });
+  return (response.text || '').trim();
+};
+
+// --- Auto-Albums ---
+export const matchAlbums = async (file: DriveFile, blob: Blob, albums: AutoAlbum[]): Promise<string[]> => {
+  const ids = albums.map(album => album.id);
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      matches: { type: Type.ARRAY, items: { type: Type.STRING, format: 'enum', enum: ids } }
+    },
+    required: ["matches"]
+  };
+  const result = await generateJson(CLASSIFY_MODEL, file, blob, buildAlbumPrompt(file, albums), schema);
+  if (!Array.isArray(result.matches)) throw new Error("Gemini returned an unexpected response shape");
+  return ids.filter(id => result.matches.includes(id));
+};
+
+export const embedTexts = async (texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'): Promise<number[][]> => {
+  const ai = getClient();
+  const vectors: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts.slice(i, i + EMBED_BATCH_SIZE),
+      config: { taskType }
     });
+    const embeddings = response.embeddings || [];
+    embeddings.forEach(embedding => {
+      if (!embedding.values) throw new Error("Embedding missing from response");
+      vectors.push(embedding.values);
+    });
+  }
+
+  if (vectors.length !== texts.length) throw new Error("Embedding count does not match input");
+  return vectors;
+};
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-    
-    return JSON.parse(text);
-  } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
-    return {
-      summary: "Could not generate summary at this time.",
-      tags: ["untagged"]
-    };
+export async function* streamChat(turns: ChatTurn[], instructions: string): AsyncGenerator<string> {
+  const ai = getClient();
+  const stream = await ai.models.generateContentStream({
+    model: ANALYSIS_MODEL,
+    contents: turns,
+    config: { systemInstruction: instructions }
+  });
+  for await (const chunk of stream) {
+    if (chunk.text) yield chunk.text;
   }
-};
\ No newline at end of file
+}
+
+export const createGeminiClient = (): AiClient => ({
+  analysisModel: ANALYSIS_MODEL,
+  embeddingModel: EMBEDDING_MODEL,
+  extractionModel: ANALYSIS_MODEL,
+  transcriptionModel: ANALYSIS_MODEL,
+  ocrModel: ANALYSIS_MODEL,
+  similarityThreshold: 0.55,
+  analyze: analyzeFileContent,
+  classifyDocument,
+  extractDocument,
+  transcribe: transcribeMedia,
+  readText: readFileText,
+  matchAlbums,
+  embed: (texts, purpose) => embedTexts(texts, purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT'),
+  chat: streamChat
+});
@@ -0,0 +1,185 @@
+import { DriveFile, DriveFolder } from '../types';
+import { StorageBackend } from './storage';
+
+// File metadata and file bytes live in separate object stores so that
+// metadata edits never rewrite the payload. Bytes are stored as ordered
+// chunks keyed [fileId, index]; earlier versions are whole blobs keyed
+// [fileId, versionId].
+const DB_VERSION = 4;
+const FILES_STORE = 'files';
+const CHUNKS_STORE = 'chunks';
+const FOLDERS_STORE = 'folders';
+const VERSIONS_STORE = 'versions';
+const LEGACY_BLOBS_STORE = 'blobs'; // v1-v2: one whole blob per file
+
+// --- IndexedDB Helpers ---
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const chunkRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+// Arrays sort after strings, so this spans every [id, versionId]
+const versionRange = (id: string) => IDBKeyRange.bound([id, ''], [id, []]);
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+const openDatabase = (uid: string): Promise<IDBDatabase> => {
+  const existing = connections.get(uid);
+  if (existing) return existing;
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`super-drive-${uid}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+        db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE);
+      }
+      if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+        db.createObjectStore(VERSIONS_STORE);
+      }
+
+      // Whole-file blobs from older versions become a single chunk
+      if (db.objectStoreNames.contains(LEGACY_BLOBS_STORE)) {
+        const tx = request.transaction!;
+        const chunks = tx.objectStore(CHUNKS_STORE);
+        const cursorRequest = tx.objectStore(LEGACY_BLOBS_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            chunks.put(cursor.value, [cursor.key, 0]);
+            cursor.continue();
+          } else {
+            db.deleteObjectStore(LEGACY_BLOBS_STORE);
+          }
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  connections.set(uid, connection);
+  connection.catch(() => connections.delete(uid));
+  return connection;
+};
+
+export const createIndexedDbBackend = (uid: string): StorageBackend => ({
+  async list() {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(FILES_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(FILES_STORE).getAll() as IDBRequest<DriveFile[]>);
+  },
+
+  async get(id) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction([FILES_STORE, CHUNKS_STORE], 'readonly');
+    const [file, chunks] = await Promise.all([
+      requestToPromise(tx.objectStore(FILES_STORE).get(id)) as Promise<DriveFile | undefined>,
+      requestToPromise(tx.objectStore(CHUNKS_STORE).getAll(chunkRange(id))) as Promise<Blob[]>
+    ]);
+    if (!file || chunks.length === 0) return null;
+    return new Blob(chunks, { type: file.mimeType });
+  },
+
+  async putChunk(id, index, chunk) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(CHUNKS_STORE, 'readwrite');
+    tx.objectStore(CHUNKS_STORE).put(chunk, [id, index]);
+    await transactionDone(tx);
+  },
+
+  async listChunks(id) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(CHUNKS_STORE, 'readonly');
+    const keys = await requestToPromise(tx.objectStore(CHUNKS_STORE).getAllKeys(chunkRange(id)));
+    return keys.map(key => (key as [string, number])[1]);
+  },
+
+  async putMetadata(file) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    tx.objectStore(FILES_STORE).put(file);
+    await transactionDone(tx);
+  },
+
+  async delete(id) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction([FILES_STORE, CHUNKS_STORE, VERSIONS_STORE], 'readwrite');
+    tx.objectStore(FILES_STORE).delete(id);
+    tx.objectStore(CHUNKS_STORE).delete(chunkRange(id));
+    tx.objectStore(VERSIONS_STORE).delete(versionRange(id));
+    await transactionDone(tx);
+  },
+
+  async deleteChunks(id) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(CHUNKS_STORE, 'readwrite');
+    tx.objectStore(CHUNKS_STORE).delete(chunkRange(id));
+    await transactionDone(tx);
+  },
+
+  async updateMetadata(id, updates) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    const store = tx.objectStore(FILES_STORE);
+    const current = await requestToPromise(store.get(id)) as DriveFile | undefined;
+    if (!current) throw new Error(`File ${id} not found`);
+    store.put({ ...current, ...updates, id });
+    await transactionDone(tx);
+  },
+
+  async listFolders() {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(FOLDERS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(FOLDERS_STORE).getAll() as IDBRequest<DriveFolder[]>);
+  },
+
+  async putFolder(folder) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+    tx.objectStore(FOLDERS_STORE).put(folder);
+    await transactionDone(tx);
+  },
+
+  async deleteFolder(id) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+    tx.objectStore(FOLDERS_STORE).delete(id);
+    await transactionDone(tx);
+  },
+
+  async putVersion(id, versionId, blob) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(VERSIONS_STORE, 'readwrite');
+    tx.objectStore(VERSIONS_STORE).put(blob, [id, versionId]);
+    await transactionDone(tx);
+  },
+
+  async getVersion(id, versionId) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(VERSIONS_STORE, 'readonly');
+    return (await requestToPromise(tx.objectStore(VERSIONS_STORE).get([id, versionId])) as Blob | undefined) ?? null;
+  },
+
+  async deleteVersion(id, versionId) {
+    const db = await openDatabase(uid);
+    const tx = db.transaction(VERSIONS_STORE, 'readwrite');
+    tx.objectStore(VERSIONS_STORE).delete([id, versionId]);
+    await transactionDone(tx);
+  }
+});
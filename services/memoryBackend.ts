@@ -0,0 +1,78 @@
+import { DriveFile, DriveFolder } from '../types';
+import { StorageBackend } from './storage';
+
+// Non-persistent backend, used for tests and throwaway sessions.
+export const createMemoryBackend = (): StorageBackend => {
+  const files = new Map<string, DriveFile>();
+  const chunks = new Map<string, Map<number, Blob>>();
+  const folders = new Map<string, DriveFolder>();
+  const versions = new Map<string, Map<string, Blob>>();
+
+  return {
+    async list() {
+      return Array.from(files.values()).map(file => ({ ...file }));
+    },
+
+    async get(id) {
+      const file = files.get(id);
+      const stored = chunks.get(id);
+      if (!file || !stored || stored.size === 0) return null;
+      const ordered = Array.from(stored.entries()).sort(([a], [b]) => a - b).map(([, chunk]) => chunk);
+      return new Blob(ordered, { type: file.mimeType });
+    },
+
+    async putChunk(id, index, chunk) {
+      if (!chunks.has(id)) chunks.set(id, new Map());
+      chunks.get(id)!.set(index, chunk);
+    },
+
+    async listChunks(id) {
+      return Array.from(chunks.get(id)?.keys() || []);
+    },
+
+    async putMetadata(file) {
+      files.set(file.id, { ...file });
+    },
+
+    async delete(id) {
+      files.delete(id);
+      chunks.delete(id);
+      versions.delete(id);
+    },
+
+    async deleteChunks(id) {
+      chunks.delete(id);
+    },
+
+    async updateMetadata(id, updates) {
+      const current = files.get(id);
+      if (!current) throw new Error(`File ${id} not found`);
+      files.set(id, { ...current, ...updates, id });
+    },
+
+    async listFolders() {
+      return Array.from(folders.values()).map(folder => ({ ...folder }));
+    },
+
+    async putFolder(folder) {
+      folders.set(folder.id, { ...folder });
+    },
+
+    async putVersion(id, versionId, blob) {
+      if (!versions.has(id)) versions.set(id, new Map());
+      versions.get(id)!.set(versionId, blob);
+    },
+
+    async getVersion(id, versionId) {
+      return versions.get(id)?.get(versionId) ?? null;
+    },
+
+    async deleteVersion(id, versionId) {
+      versions.get(id)?.delete(versionId);
+    },
+
+    async deleteFolder(id) {
+      folders.delete(id);
+    }
+  };
+};
@@ -0,0 +1,19 @@
+// Small per-user UI preferences (view mode, column widths, ...) kept in localStorage
+const preferenceKey = (uid: string, key: string) => `super-drive-pref-${uid}-${key}`;
+
+export const loadPreference = <T,>(uid: string, key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(preferenceKey(uid, key));
+    return raw === null ? fallback : JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+};
+
+export const savePreference = <T,>(uid: string, key: string, value: T) => {
+  try {
+    localStorage.setItem(preferenceKey(uid, key), JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save preference "${key}":`, error);
+  }
+};
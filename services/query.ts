@@ -0,0 +1,228 @@
+import { DriveFile, FileType } from '../types';
+import { fileTags, normalizeTag } from './tags';
+
+// Search query language, e.g.
+//   tag:invoice type:pdf size:>2mb after:2026-01-01 "exact phrase" -draft
+// Terms are ANDed together; a leading "-" negates a term.
+
+// --- AST ---
+export type Comparator = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { kind: 'text'; value: string; exact: boolean }
+  | { kind: 'name'; value: string }
+  | { kind: 'tag'; value: string }
+  | { kind: 'type'; value: FileType }
+  | { kind: 'size'; op: Comparator; bytes: number }
+  | { kind: 'date'; op: 'after' | 'before'; timestamp: number }
+  | { kind: 'not'; node: QueryNode };
+
+export interface Query {
+  terms: QueryNode[];
+}
+
+export interface QuerySyntaxError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParseResult {
+  query: Query;
+  errors: QuerySyntaxError[];
+}
+
+// --- Tokenizer ---
+export interface QueryToken {
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+  field?: string;
+  start: number;
+  end: number;
+}
+
+const FIELD_PATTERN = /^([a-z]+):/i;
+
+export const tokenize = (input: string): { tokens: QueryToken[]; errors: QuerySyntaxError[] } => {
+  const tokens: QueryToken[] = [];
+  const errors: QuerySyntaxError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) { i++; continue; }
+
+    const start = i;
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let field: string | undefined;
+    const fieldMatch = FIELD_PATTERN.exec(input.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    const valueStart = i;
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', start, end: input.length });
+        tokens.push({ value: input.slice(i + 1), quoted: true, negated, field, start, end: input.length });
+        break;
+      }
+      tokens.push({ value: input.slice(i + 1, close), quoted: true, negated, field, start, end: close + 1 });
+      i = close + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      tokens.push({ value: input.slice(valueStart, i), quoted: false, negated, field, start, end: i });
+    }
+  }
+
+  return { tokens, errors };
+};
+
+// --- Parser ---
+const FILE_TYPES: FileType[] = ['image', 'text', 'pdf', 'video', 'audio', 'other'];
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3
+};
+
+const SIZE_PATTERN = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseToken = (token: QueryToken): QueryNode | QuerySyntaxError => {
+  const error = (message: string): QuerySyntaxError => ({ message, start: token.start, end: token.end });
+  const value = token.value.trim();
+
+  switch (token.field) {
+    case 'tag':
+      if (!value) return error('tag: needs a value');
+      return { kind: 'tag', value: normalizeTag(value) };
+
+    case 'name':
+      if (!value) return error('name: needs a value');
+      return { kind: 'name', value: value.toLowerCase() };
+
+    case 'type': {
+      const type = value.toLowerCase() as FileType;
+      if (!FILE_TYPES.includes(type)) return error(`Unknown type "${value}". Use one of: ${FILE_TYPES.join(', ')}`);
+      return { kind: 'type', value: type };
+    }
+
+    case 'size': {
+      const match = SIZE_PATTERN.exec(value);
+      if (!match) return error(`Invalid size "${value}". Try size:>2mb or size:<500kb`);
+      const unit = (match[3] || 'b').toLowerCase();
+      return { kind: 'size', op: (match[1] as Comparator) || '>=', bytes: parseFloat(match[2]) * SIZE_UNITS[unit] };
+    }
+
+    case 'after':
+    case 'before': {
+      const timestamp = DATE_PATTERN.test(value) ? new Date(`${value}T00:00:00`).getTime() : NaN;
+      if (isNaN(timestamp)) return error(`Invalid date "${value}". Use YYYY-MM-DD`);
+      return { kind: 'date', op: token.field, timestamp };
+    }
+
+    default: {
+      // Unknown prefixes (e.g. "re:" or URLs) are searched as plain text
+      const text = token.field && !token.quoted ? `${token.field}:${value}` : value;
+      if (!text) return error('Empty search term');
+      return { kind: 'text', value: text.toLowerCase(), exact: token.quoted };
+    }
+  }
+};
+
+export const parseQuery = (input: string): ParseResult => {
+  const { tokens, errors } = tokenize(input);
+  const terms: QueryNode[] = [];
+
+  tokens.forEach(token => {
+    const result = parseToken(token);
+    if ('message' in result) {
+      errors.push(result);
+      return;
+    }
+    terms.push(token.negated ? { kind: 'not', node: result } : result);
+  });
+
+  return { query: { terms }, errors };
+};
+
+// --- Evaluator ---
+const compare = (actual: number, op: Comparator, expected: number) => {
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+};
+
+const searchableText = (file: DriveFile) =>
+  [file.name, file.notes, file.aiData?.summary || '', ...fileTags(file)].join('\n').toLowerCase();
+
+const matchesText = (text: string, value: string, exact: boolean) =>
+  exact ? new RegExp(`(^|\\W)${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\W|$)`).test(text) : text.includes(value);
+
+export const evaluateNode = (file: DriveFile, node: QueryNode): boolean => {
+  switch (node.kind) {
+    case 'text': return matchesText(searchableText(file), node.value, node.exact);
+    case 'name': return file.name.toLowerCase().includes(node.value);
+    case 'tag': return fileTags(file).includes(node.value);
+    case 'type': return file.type === node.value;
+    case 'size': return compare(file.size, node.op, node.bytes);
+    // after: is inclusive of the given day, before: is exclusive
+    case 'date': return node.op === 'after' ? file.uploadDate >= node.timestamp : file.uploadDate < node.timestamp;
+    case 'not': return !evaluateNode(file, node.node);
+  }
+};
+
+export const matchesQuery = (file: DriveFile, query: Query) => query.terms.every(node => evaluateNode(file, node));
+
+// Separates positive free-text terms (answered by the full-text index) from the
+// structured terms that are evaluated directly against file metadata
+export const splitFreeText = (query: Query): { words: string[]; phrases: string[]; structured: Query } => {
+  const words: string[] = [];
+  const phrases: string[] = [];
+  const structured: QueryNode[] = [];
+  query.terms.forEach(node => {
+    if (node.kind === 'text' && node.exact) phrases.push(node.value);
+    else if (node.kind === 'text') words.push(node.value);
+    else structured.push(node);
+  });
+  return { words, phrases, structured: { terms: structured } };
+};
+
+// Folders only have names, so any file-specific term excludes them from results
+export const matchesFolderName = (name: string, query: Query) => {
+  const lower = name.toLowerCase();
+  return query.terms.every(node => {
+    const negated = node.kind === 'not';
+    const inner = node.kind === 'not' ? node.node : node;
+    if (inner.kind !== 'text' && inner.kind !== 'name') return false;
+    const matched = inner.kind === 'text' ? matchesText(lower, inner.value, inner.exact) : lower.includes(inner.value);
+    return negated ? !matched : matched;
+  });
+};
+
+// --- Query Editing ---
+// Tags that must be present, i.e. positive tag: terms
+export const requiredTags = (query: Query) =>
+  query.terms.flatMap(node => node.kind === 'tag' ? [node.value] : []);
+
+// Adds or removes a tag: term, leaving the rest of the search as typed
+export const toggleTagFilter = (search: string, tag: string) => {
+  const existing = tokenize(search).tokens.find(token => token.field === 'tag' && !token.negated && normalizeTag(token.value) === tag);
+  if (existing) return `${search.slice(0, existing.start).trimEnd()} ${search.slice(existing.end).trimStart()}`.trim();
+  const term = /\s/.test(tag) ? `tag:"${tag}"` : `tag:${tag}`;
+  return `${search.trim()} ${term}`.trim();
+};
@@ -0,0 +1,21 @@
+import { createSearchIndex, SearchWorkerRequest, SearchWorkerResponse } from './searchIndex';
+
+// Keeps the inverted index off the main thread so typing stays responsive
+const index = createSearchIndex();
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'upsert':
+      message.documents.forEach(doc => index.upsert(doc));
+      break;
+    case 'remove':
+      message.ids.forEach(id => index.remove(id));
+      break;
+    case 'search': {
+      const response: SearchWorkerResponse = { type: 'results', requestId: message.requestId, hits: index.search(message.request) };
+      self.postMessage(response);
+      break;
+    }
+  }
+};
@@ -0,0 +1,104 @@
+import { DriveFile } from '../types';
+import { transcriptText } from './transcripts';
+import { fileTags } from './tags';
+import { createSearchIndex, IndexDocument, SearchHit, SearchRequest, SearchWorkerRequest, SearchWorkerResponse } from './searchIndex';
+
+// Text file contents and transcripts beyond this are not indexed
+const MAX_CONTENT_LENGTH = 256 * 1024;
+
+export const toIndexDocument = (file: DriveFile): IndexDocument => ({
+  id: file.id,
+  fields: {
+    name: file.name,
+    tags: fileTags(file).join(' '),
+    summary: file.aiData?.summary || '',
+    notes: file.notes,
+    content: file.content?.text.slice(0, MAX_CONTENT_LENGTH) || '',
+    transcript: transcriptText(file.transcript).slice(0, MAX_CONTENT_LENGTH)
+  }
+});
+
+// Talks to the search worker, falling back to an in-thread index where workers are
+// unavailable or the worker fails
+export const createSearchClient = () => {
+  let worker: Worker | null = null;
+  try {
+    worker = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn("Search worker unavailable, indexing on the main thread:", error);
+  }
+
+  let localIndex = worker ? null : createSearchIndex();
+  const pending = new Map<number, { resolve: (hits: SearchHit[]) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 0;
+  // What the worker holds, so the in-thread index can be rebuilt if it fails
+  const documents = new Map<string, IndexDocument>();
+
+  const fallBack = (error: unknown) => {
+    if (!worker) return;
+    console.error("Search worker failed, indexing on the main thread:", error);
+    worker.terminate();
+    worker = null;
+    const index = createSearchIndex();
+    documents.forEach(doc => index.upsert(doc));
+    documents.clear();
+    localIndex = index;
+    pending.forEach(({ reject }) => reject(new Error('The search worker failed')));
+    pending.clear();
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const request = pending.get(event.data.requestId);
+      pending.delete(event.data.requestId);
+      request?.resolve(event.data.hits);
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      fallBack(event.message || event);
+    };
+    worker.onmessageerror = fallBack;
+  }
+
+  const send = (message: SearchWorkerRequest) => worker?.postMessage(message);
+
+  return {
+    upsert(docs: IndexDocument[]) {
+      if (docs.length === 0) return;
+      const index = localIndex;
+      if (index) docs.forEach(doc => index.upsert(doc));
+      else {
+        docs.forEach(doc => documents.set(doc.id, doc));
+        send({ type: 'upsert', documents: docs });
+      }
+    },
+
+    remove(ids: string[]) {
+      if (ids.length === 0) return;
+      const index = localIndex;
+      if (index) ids.forEach(id => index.remove(id));
+      else {
+        ids.forEach(id => documents.delete(id));
+        send({ type: 'remove', ids });
+      }
+    },
+
+    search(request: SearchRequest): Promise<SearchHit[]> {
+      if (localIndex) return Promise.resolve(localIndex.search(request));
+      const requestId = nextRequestId++;
+      return new Promise((resolve, reject) => {
+        pending.set(requestId, { resolve, reject });
+        send({ type: 'search', requestId, request });
+      });
+    },
+
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      pending.clear();
+      documents.clear();
+    }
+  };
+};
+
+export type SearchClient = ReturnType<typeof createSearchClient>;
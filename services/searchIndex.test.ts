@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex, stem } from './searchIndex';
+
+const indexOf = (docs: Record<string, string>) => {
+  const index = createSearchIndex();
+  Object.entries(docs).forEach(([id, name]) => index.upsert({ id, fields: { name } }));
+  return index;
+};
+
+const ids = (hits: { id: string }[]) => hits.map(hit => hit.id).sort();
+
+describe('stem', () => {
+  it('strips common suffixes', () => {
+    expect(stem('invoices')).toBe('invoic');
+    expect(stem('running')).toBe('run');
+    expect(stem('batteries')).toBe('battery');
+  });
+});
+
+describe('createSearchIndex', () => {
+  const index = indexOf({
+    a: 'Quarterly invoice from Acme',
+    b: 'Invoices for the new office',
+    c: 'Holiday photos at the beach'
+  });
+
+  it('matches words by stem and prefix', () => {
+    expect(ids(index.search({ words: ['invoice'], phrases: [] }))).toEqual(['a', 'b']);
+    expect(ids(index.search({ words: ['hol'], phrases: [] }))).toEqual(['c']);
+  });
+
+  it('requires every word', () => {
+    expect(ids(index.search({ words: ['invoice', 'acme'], phrases: [] }))).toEqual(['a']);
+    expect(index.search({ words: ['invoice', 'beach'], phrases: [] })).toEqual([]);
+  });
+
+  it('matches phrases verbatim', () => {
+    expect(ids(index.search({ words: [], phrases: ['new office'] }))).toEqual(['b']);
+    expect(index.search({ words: [], phrases: ['office new'] })).toEqual([]);
+  });
+
+  it('ranks exact matches above prefix matches', () => {
+    const ranked = indexOf({ exact: 'tax', prefix: 'taxonomy' }).search({ words: ['tax'], phrases: [] });
+    expect(ranked.map(hit => hit.id)).toEqual(['exact', 'prefix']);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    const changing = indexOf({ a: 'red apple', b: 'red car' });
+    changing.remove('a');
+    changing.upsert({ id: 'b', fields: { name: 'blue car' } });
+    expect(changing.search({ words: ['red'], phrases: [] })).toEqual([]);
+    expect(ids(changing.search({ words: ['blue'], phrases: [] }))).toEqual(['b']);
+  });
+
+  it('returns every hit unless a limit is given', () => {
+    const many = indexOf(Object.fromEntries(Array.from({ length: 800 }, (_, i) => [`doc${i}`, `report ${i}`])));
+    expect(many.search({ words: ['report'], phrases: [] })).toHaveLength(800);
+    expect(many.search({ words: ['report'], phrases: [], limit: 10 })).toHaveLength(10);
+  });
+
+  it('builds a snippet around the match', () => {
+    const withContent = createSearchIndex();
+    withContent.upsert({ id: 'a', fields: { name: 'notes.txt', content: 'The meeting moved to Thursday afternoon.' } });
+    const [hit] = withContent.search({ words: ['thursday'], phrases: [] });
+    expect(hit.snippet).toContain('Thursday');
+  });
+});
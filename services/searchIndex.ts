@@ -0,0 +1,212 @@
+// Client-side full-text inverted index. Runs inside the search worker, but has no
+// DOM dependencies so it can also run on the main thread as a fallback.
+
+export type IndexedField = 'name' | 'tags' | 'summary' | 'notes' | 'content' | 'transcript';
+
+export interface IndexDocument {
+  id: string;
+  fields: Partial<Record<IndexedField, string>>;
+}
+
+export interface SearchRequest {
+  words: string[];   // free-text words, matched by stemmed prefix
+  phrases: string[]; // exact phrases that must appear verbatim
+  limit?: number;    // best-scoring hits to return; all of them when left out
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  snippet: string;
+  highlights: string[]; // stems to highlight in the snippet
+}
+
+const FIELD_WEIGHTS: Record<IndexedField, number> = {
+  name: 3,
+  tags: 2.5,
+  summary: 1.5,
+  notes: 1.5,
+  content: 1,
+  transcript: 1
+};
+
+// Fields searched for a snippet, in order of preference
+const SNIPPET_FIELDS: IndexedField[] = ['content', 'transcript', 'notes', 'summary', 'name'];
+const SNIPPET_RADIUS = 60;
+const PREFIX_MATCH_PENALTY = 0.7;
+
+// --- Text Processing ---
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Deliberately light suffix stripping; prefix matching covers most of the rest
+export const stem = (word: string): string => {
+  if (word.length <= 3) return word;
+  let w = word;
+  if (w.endsWith('ies') && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us')) w = w.slice(0, -1);
+
+  for (const suffix of ['ing', 'ed', 'ly']) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      if (/([^aeiouls])\1$/.test(w)) w = w.slice(0, -1); // running -> run
+      break;
+    }
+  }
+
+  if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1);
+  return w;
+};
+
+export const tokenizeText = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => !STOP_WORDS.has(word));
+
+// --- Index ---
+export const createSearchIndex = () => {
+  // token -> docId -> weighted term frequency
+  const postings = new Map<string, Map<string, number>>();
+  const documents = new Map<string, { fields: IndexDocument['fields']; tokens: Set<string> }>();
+  let vocabulary: string[] | null = null; // sorted, rebuilt lazily for prefix lookups
+
+  const remove = (id: string) => {
+    const doc = documents.get(id);
+    if (!doc) return;
+    doc.tokens.forEach(token => {
+      const docs = postings.get(token);
+      docs?.delete(id);
+      if (docs && docs.size === 0) {
+        postings.delete(token);
+        vocabulary = null;
+      }
+    });
+    documents.delete(id);
+  };
+
+  const upsert = (doc: IndexDocument) => {
+    remove(doc.id);
+    const tokens = new Set<string>();
+
+    (Object.keys(doc.fields) as IndexedField[]).forEach(field => {
+      tokenizeText(doc.fields[field] || '').forEach(word => {
+        const token = stem(word);
+        tokens.add(token);
+        if (!postings.has(token)) {
+          postings.set(token, new Map());
+          vocabulary = null;
+        }
+        const docs = postings.get(token)!;
+        docs.set(doc.id, (docs.get(doc.id) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+
+    documents.set(doc.id, { fields: doc.fields, tokens });
+  };
+
+  // Tokens equal to, or starting with, the query token
+  const expand = (queryToken: string): string[] => {
+    if (!vocabulary) vocabulary = Array.from(postings.keys()).sort();
+    let lo = 0;
+    let hi = vocabulary.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (vocabulary[mid] < queryToken) lo = mid + 1;
+      else hi = mid;
+    }
+    const matches: string[] = [];
+    for (let i = lo; i < vocabulary.length && vocabulary[i].startsWith(queryToken); i++) matches.push(vocabulary[i]);
+    return matches;
+  };
+
+  const idf = (token: string) => Math.log(1 + documents.size / (postings.get(token)?.size || 1));
+
+  const buildSnippet = (fields: IndexDocument['fields'], stems: string[], phrases: string[]) => {
+    for (const field of SNIPPET_FIELDS) {
+      const text = fields[field];
+      if (!text) continue;
+      const lower = text.toLowerCase();
+
+      let position = -1;
+      for (const phrase of phrases) {
+        position = lower.indexOf(phrase);
+        if (position !== -1) break;
+      }
+      if (position === -1) {
+        for (const s of stems) {
+          const match = new RegExp(`(^|[^\\p{L}\\p{N}])${s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'u').exec(lower);
+          if (match) {
+            position = match.index + match[1].length;
+            break;
+          }
+        }
+      }
+      if (position === -1) continue;
+
+      const start = Math.max(0, position - SNIPPET_RADIUS);
+      const end = Math.min(text.length, position + SNIPPET_RADIUS * 2);
+      return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+    }
+    return '';
+  };
+
+  const search = ({ words, phrases, limit }: SearchRequest): SearchHit[] => {
+    const stems = Array.from(new Set(words.flatMap(tokenizeText).map(stem)));
+    const phraseStems = phrases.flatMap(tokenizeText).map(stem);
+    const lowerPhrases = phrases.map(p => p.toLowerCase());
+    const required = Array.from(new Set([...stems, ...phraseStems]));
+    if (required.length === 0) return [];
+
+    // Score each candidate; a document must match every query token
+    let scores: Map<string, number> | null = null;
+    for (const queryToken of required) {
+      const termScores = new Map<string, number>();
+      expand(queryToken).forEach(token => {
+        const weight = idf(token) * (token === queryToken ? 1 : PREFIX_MATCH_PENALTY);
+        postings.get(token)!.forEach((tf, id) => {
+          termScores.set(id, Math.max(termScores.get(id) || 0, weight * (tf / (tf + 1.2))));
+        });
+      });
+
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      termScores.forEach((score, id) => {
+        if (previous && !previous.has(id)) return;
+        scores!.set(id, (previous?.get(id) || 0) + score);
+      });
+      if (scores.size === 0) return [];
+    }
+
+    const hits: SearchHit[] = [];
+    scores!.forEach((score, id) => {
+      const doc = documents.get(id)!;
+      if (lowerPhrases.length > 0) {
+        const haystack = Object.values(doc.fields).join('\n').toLowerCase();
+        if (!lowerPhrases.every(phrase => haystack.includes(phrase))) return;
+      }
+      hits.push({ id, score, snippet: buildSnippet(doc.fields, required, lowerPhrases), highlights: required });
+    });
+
+    hits.sort((a, b) => b.score - a.score);
+    return limit === undefined ? hits : hits.slice(0, limit);
+  };
+
+  return {
+    upsert,
+    remove,
+    search,
+    clear() {
+      postings.clear();
+      documents.clear();
+      vocabulary = null;
+    }
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// --- Worker Protocol ---
+export type SearchWorkerRequest =
+  | { type: 'upsert'; documents: IndexDocument[] }
+  | { type: 'remove'; ids: string[] }
+  | { type: 'search'; requestId: number; request: SearchRequest };
+
+export type SearchWorkerResponse = { type: 'results'; requestId: number; hits: SearchHit[] };
@@ -0,0 +1,29 @@
+// Multi-select in the file views. `order` is the order files are shown in, so
+// shift-click ranges follow what's on screen.
+
+export const toggleSelected = (selected: Set<string>, id: string) => {
+  const next = new Set(selected);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
+
+// Adds everything between the anchor (the last plainly clicked file) and id
+export const selectRange = (selected: Set<string>, order: string[], anchor: string | null, id: string) => {
+  const from = anchor ? order.indexOf(anchor) : -1;
+  const to = order.indexOf(id);
+  if (from === -1 || to === -1) return toggleSelected(selected, id);
+  const next = new Set(selected);
+  order.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(rangeId => next.add(rangeId));
+  return next;
+};
+
+export const isAllSelected = (selected: Set<string>, ids: string[]) => ids.length > 0 && ids.every(id => selected.has(id));
+
+// Selects all of ids, or clears them if they're all selected already
+export const toggleAll = (selected: Set<string>, ids: string[]) => {
+  const next = new Set(selected);
+  if (isAllSelected(selected, ids)) ids.forEach(id => next.delete(id));
+  else ids.forEach(id => next.add(id));
+  return next;
+};
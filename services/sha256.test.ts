@@ -0,0 +1,28 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { createSha256 } from './sha256';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+const reference = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+describe('createSha256', () => {
+  it('hashes the empty input', () => {
+    expect(createSha256().digest()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  // Lengths around the 55/56/64-byte padding boundaries
+  it.each([1, 55, 56, 63, 64, 65, 119, 120, 1000])('matches node:crypto for %i bytes', length => {
+    const hash = createSha256();
+    hash.update(bytes(length));
+    expect(hash.digest()).toBe(reference(bytes(length)));
+  });
+
+  it('gives the same digest however the input is split', () => {
+    const data = bytes(5000);
+    const hash = createSha256();
+    for (let offset = 0, size = 1; offset < data.length; offset += size, size = (size * 7) % 97 + 1) {
+      hash.update(data.subarray(offset, offset + size));
+    }
+    expect(hash.digest()).toBe(reference(data));
+  });
+});
@@ -0,0 +1,72 @@
+import { DriveFile, DriveFolder } from '../types';
+import { dataUrlToBlob } from './fileUtils';
+import { writeFileInChunks } from './chunkedUpload';
+import { createIndexedDbBackend } from './indexedDbBackend';
+import { createFirebaseBackend } from './firebaseBackend';
+import { createMemoryBackend } from './memoryBackend';
+
+// File bytes are written as numbered chunks and only become visible in list()
+// once putMetadata() is called, so an interrupted upload can resume from the
+// chunks already stored. get() reassembles the chunks into a single Blob.
+// Earlier versions of a file are kept whole, next to its chunks.
+export interface StorageBackend {
+  list(): Promise<DriveFile[]>;
+  get(id: string): Promise<Blob | null>;
+  putChunk(id: string, index: number, chunk: Blob): Promise<void>;
+  listChunks(id: string): Promise<number[]>;
+  putMetadata(file: DriveFile): Promise<void>;
+  delete(id: string): Promise<void>; // also removes the file's versions
+  deleteChunks(id: string): Promise<void>;
+  updateMetadata(id: string, updates: Partial<DriveFile>): Promise<void>;
+  listFolders(): Promise<DriveFolder[]>;
+  putFolder(folder: DriveFolder): Promise<void>;
+  deleteFolder(id: string): Promise<void>;
+  putVersion(id: string, versionId: string, blob: Blob): Promise<void>;
+  getVersion(id: string, versionId: string): Promise<Blob | null>;
+  deleteVersion(id: string, versionId: string): Promise<void>;
+}
+
+export type StorageBackendKind = 'local' | 'firebase' | 'memory';
+
+const isBackendKind = (value: unknown): value is StorageBackendKind =>
+  value === 'local' || value === 'firebase' || value === 'memory';
+
+// Selected with STORAGE_BACKEND in .env.local; defaults to this browser's IndexedDB
+export const storageBackendKind: StorageBackendKind =
+  isBackendKind(process.env.STORAGE_BACKEND) ? process.env.STORAGE_BACKEND : 'local';
+
+export const createStorageBackend = (uid: string, kind: StorageBackendKind = storageBackendKind): StorageBackend => {
+  switch (kind) {
+    case 'firebase': return createFirebaseBackend(uid);
+    case 'memory': return createMemoryBackend();
+    default: return createIndexedDbBackend(uid);
+  }
+};
+
+// --- Migration ---
+const legacyStorageKey = (uid: string) => `gemini-drive-files-${uid}`;
+
+// Shape written by the old localStorage persistence (metadata + base64 payload)
+type LegacyDriveFile = DriveFile & { data: string };
+
+// Moves files from the old single-key localStorage format into the active backend.
+// The legacy key is only removed once every file has been copied, so an
+// interrupted migration simply reruns on the next load.
+export const migrateLegacyStorage = async (uid: string, backend: StorageBackend) => {
+  const raw = localStorage.getItem(legacyStorageKey(uid));
+  if (!raw) return;
+
+  let legacyFiles: LegacyDriveFile[];
+  try {
+    legacyFiles = JSON.parse(raw);
+  } catch (error) {
+    console.error("Legacy file list is corrupt, skipping migration:", error);
+    return;
+  }
+
+  for (const { data, ...metadata } of legacyFiles) {
+    await writeFileInChunks(backend, metadata, await dataUrlToBlob(data));
+  }
+
+  localStorage.removeItem(legacyStorageKey(uid));
+};
@@ -0,0 +1,93 @@
+import { DriveFile } from '../types';
+import { loadPreference, savePreference } from './preferences';
+
+// A file's tags are the ones its user added or accepted, plus the AI's
+// suggestions that haven't been accepted or rejected yet. Suggestions are
+// never edited in place; rejecting or renaming one records it in rejectedTags
+// so a re-analysis doesn't bring it back.
+export type TagState = Required<Pick<DriveFile, 'tags' | 'rejectedTags'>>;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const unique = (tags: string[]) => Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+
+export const getTagState = (file: DriveFile): TagState => ({ tags: file.tags || [], rejectedTags: file.rejectedTags || [] });
+
+const aiTags = (file: DriveFile) => unique(file.aiData?.tags || []);
+
+export const suggestedTags = (file: DriveFile) => {
+  const decided = new Set([...(file.tags || []), ...(file.rejectedTags || [])]);
+  return aiTags(file).filter(tag => !decided.has(tag));
+};
+
+// The user's tags first, then pending suggestions
+export const fileTags = (file: DriveFile) => [...(file.tags || []), ...suggestedTags(file)];
+
+// Adding a tag also accepts it if it was suggested
+export const addTag = (state: TagState, tag: string): TagState => {
+  const normalized = normalizeTag(tag);
+  if (!normalized) return state;
+  return { tags: unique([...state.tags, normalized]), rejectedTags: state.rejectedTags.filter(t => t !== normalized) };
+};
+
+// Removing a tag the AI suggested rejects the suggestion too
+export const removeTag = (state: TagState, tag: string, file: DriveFile): TagState => ({
+  tags: state.tags.filter(t => t !== tag),
+  rejectedTags: aiTags(file).includes(tag) ? unique([...state.rejectedTags, tag]) : state.rejectedTags
+});
+
+// --- Tag Browser ---
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export const countTags = (files: DriveFile[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  files.forEach(file => fileTags(file).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Tag changes for every file carrying `tag`; renaming onto an existing tag merges the two
+export const renameTag = (files: DriveFile[], from: string, to: string) => {
+  const changes = new Map<string, TagState>();
+  files.forEach(file => {
+    if (!fileTags(file).includes(from)) return;
+    changes.set(file.id, addTag(removeTag(getTagState(file), from, file), to));
+  });
+  return changes;
+};
+
+export const deleteTag = (files: DriveFile[], tag: string) => {
+  const changes = new Map<string, TagState>();
+  files.forEach(file => {
+    if (fileTags(file).includes(tag)) changes.set(file.id, removeTag(getTagState(file), tag, file));
+  });
+  return changes;
+};
+
+// --- Colors ---
+export type TagColor = 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'purple' | 'pink' | 'gray';
+export type TagColors = Record<string, TagColor>;
+
+export const TAG_COLORS: TagColor[] = ['red', 'orange', 'amber', 'green', 'teal', 'blue', 'purple', 'pink', 'gray'];
+
+// Spelled out in full so Tailwind picks the classes up
+export const TAG_COLOR_CLASSES: Record<TagColor, { chip: string; dot: string }> = {
+  red: { chip: 'bg-red-50 text-red-700 border-red-100', dot: 'bg-red-500' },
+  orange: { chip: 'bg-orange-50 text-orange-700 border-orange-100', dot: 'bg-orange-500' },
+  amber: { chip: 'bg-amber-50 text-amber-700 border-amber-100', dot: 'bg-amber-500' },
+  green: { chip: 'bg-green-50 text-green-700 border-green-100', dot: 'bg-green-500' },
+  teal: { chip: 'bg-teal-50 text-teal-700 border-teal-100', dot: 'bg-teal-500' },
+  blue: { chip: 'bg-blue-50 text-blue-700 border-blue-100', dot: 'bg-blue-500' },
+  purple: { chip: 'bg-purple-50 text-purple-700 border-purple-100', dot: 'bg-purple-500' },
+  pink: { chip: 'bg-pink-50 text-pink-700 border-pink-100', dot: 'bg-pink-500' },
+  gray: { chip: 'bg-gray-100 text-gray-700 border-gray-200', dot: 'bg-gray-500' }
+};
+
+const COLORS_PREFERENCE_KEY = 'tagColors';
+
+export const loadTagColors = (uid: string) => loadPreference<TagColors>(uid, COLORS_PREFERENCE_KEY, {});
+
+export const saveTagColors = (uid: string, colors: TagColors) => savePreference(uid, COLORS_PREFERENCE_KEY, colors);
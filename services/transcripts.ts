@@ -0,0 +1,96 @@
+import { DriveFile, FileType, Transcript, TranscriptSegment } from '../types';
+
+export const TRANSCRIBABLE_TYPES: FileType[] = ['audio', 'video'];
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export const TRANSCRIBE_PROMPT = [
+  'Transcribe all speech in this recording.',
+  'Split it into segments of at most two sentences, each with its start and end time in seconds from the beginning of the recording.',
+  'Label speakers as "Speaker 1", "Speaker 2" and so on when more than one person speaks, using names only when they are stated.',
+  'Give the language as a BCP 47 tag such as "en". Return no segments if nobody speaks.'
+].join('\n');
+
+// --- Status Helpers ---
+export const isTranscribable = (file: DriveFile) => TRANSCRIBABLE_TYPES.includes(file.type);
+
+export const isTranscriptionActive = (file: DriveFile) =>
+  file.transcript?.status === 'pending' || file.transcript?.status === 'running';
+
+// Plain text of a finished transcript, for indexing
+export const transcriptText = (transcript?: Transcript) =>
+  transcript?.status === 'done' ? transcript.segments.map(segment => segment.text).join('\n') : '';
+
+// --- Normalisation ---
+const asSeconds = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+// Keeps well-formed segments in playback order. Missing or inverted end times
+// are filled from the next segment so every cue has a duration.
+export const normalizeSegments = (raw: unknown): TranscriptSegment[] => {
+  const parsed = (Array.isArray(raw) ? raw : [])
+    .map((segment: Record<string, unknown>) => ({
+      start: asSeconds(segment?.start),
+      end: asSeconds(segment?.end),
+      // Line breaks inside a cue's text would end it early in SRT and WebVTT
+      text: typeof segment?.text === 'string' ? segment.text.replace(/\s+/g, ' ').trim() : '',
+      speaker: typeof segment?.speaker === 'string' && segment.speaker.trim() ? segment.speaker.trim() : undefined
+    }))
+    .filter((segment): segment is typeof segment & { start: number } => segment.start !== undefined && !!segment.text)
+    .sort((a, b) => a.start - b.start);
+
+  return parsed.map((segment, i) => {
+    const next = parsed[i + 1]?.start;
+    const end = segment.end !== undefined && segment.end > segment.start ? segment.end : (next ?? segment.start + 2);
+    return { start: segment.start, end, text: segment.text, ...(segment.speaker ? { speaker: segment.speaker } : {}) };
+  });
+};
+
+// Index of the segment playing at `time`, or -1 between segments
+export const findActiveSegment = (segments: TranscriptSegment[], time: number) =>
+  segments.findIndex(segment => time >= segment.start && time < segment.end);
+
+// --- Formatting ---
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 75.5 -> "1:15" for display
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(total % 60)}` : `${minutes}:${pad(total % 60)}`;
+};
+
+// SRT uses "00:01:15,500", WebVTT "00:01:15.500"
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const millis = Math.round(seconds * 1000);
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor((millis % 3_600_000) / 60_000);
+  const secs = Math.floor((millis % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis % 1000, 3)}`;
+};
+
+// "-->" inside cue text would be read as a timing line
+const escapeArrows = (text: string) => text.replace(/-->/g, '->');
+
+const cueText = (segment: TranscriptSegment) => escapeArrows(segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text);
+
+export const toSrt = (segments: TranscriptSegment[]) =>
+  segments
+    .map((segment, i) => `${i + 1}\n${formatCueTime(segment.start, ',')} --> ${formatCueTime(segment.end, ',')}\n${cueText(segment)}\n`)
+    .join('\n');
+
+// Speakers become voice spans so players can style them
+export const toVtt = (segments: TranscriptSegment[]) =>
+  ['WEBVTT\n', ...segments.map(segment => {
+    // "<" and "&" start markup in WebVTT
+    const text = escapeArrows(segment.text).replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    const body = segment.speaker ? `<v ${segment.speaker.replace(/[<>]/g, '')}>${text}` : text;
+    return `${formatCueTime(segment.start, '.')} --> ${formatCueTime(segment.end, '.')}\n${body}\n`;
+  })].join('\n');
+
+export const toSubtitles = (segments: TranscriptSegment[], format: SubtitleFormat) =>
+  format === 'srt' ? toSrt(segments) : toVtt(segments);
+
+// "talk.mp3" -> "talk.srt"
+export const subtitleFileName = (fileName: string, format: SubtitleFormat) =>
+  `${fileName.replace(/\.[^.]+$/, '')}.${format}`;
@@ -0,0 +1,41 @@
+import { DriveFile, DriveFolder } from '../types';
+import { loadPreference, savePreference } from './preferences';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted files stay in the trash before they are removed for good
+export const RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: '1 day' },
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' }
+];
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const PREFERENCE_KEY = 'trashRetentionDays';
+
+export const loadRetentionDays = (uid: string) => {
+  const days = loadPreference(uid, PREFERENCE_KEY, DEFAULT_RETENTION_DAYS);
+  return RETENTION_OPTIONS.some(option => option.value === days) ? days : DEFAULT_RETENTION_DAYS;
+};
+
+export const saveRetentionDays = (uid: string, days: number) => savePreference(uid, PREFERENCE_KEY, days);
+
+// --- Helpers ---
+export const isTrashed = (file: DriveFile) => !!file.deletedAt;
+
+export const purgeTime = (file: DriveFile, retentionDays: number) => (file.deletedAt || 0) + retentionDays * DAY_MS;
+
+export const expiredFiles = (trash: DriveFile[], retentionDays: number, now = Date.now()) =>
+  trash.filter(file => purgeTime(file, retentionDays) <= now);
+
+// Whole days left, rounded up so a file never shows "0 days" before it goes
+export const daysUntilPurge = (file: DriveFile, retentionDays: number, now = Date.now()) =>
+  Math.max(0, Math.ceil((purgeTime(file, retentionDays) - now) / DAY_MS));
+
+// Restored files go back to their folder, or to the root if it was deleted since
+export const restoreFile = (file: DriveFile, folders: DriveFolder[]): DriveFile => {
+  const { deletedAt, ...rest } = file;
+  return { ...rest, parentId: folders.some(f => f.id === file.parentId) ? file.parentId : null };
+};
@@ -0,0 +1,180 @@
+import { createLimiter } from './concurrency';
+
+// Checking: waiting to be hashed and compared with the drive before it is queued
+export type UploadStatus = 'checking' | 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+export interface QueuedUpload {
+  id: string;
+  file: File;
+  parentId: string | null;
+  status: UploadStatus;
+  progress: number; // 0..1
+  error?: string;
+  contentHash?: string; // set when the file was already hashed before queueing
+}
+
+// A file picked or dropped by the user, with its path relative to the dropped directory
+export interface PendingFile {
+  file: File;
+  path: string;
+}
+
+export type UploadHandler = (item: QueuedUpload, onProgress: (progress: number) => void, signal: AbortSignal) => Promise<void>;
+
+export const createUploadQueue = (options: {
+  concurrency: number;
+  upload: UploadHandler;
+  onChange: (items: QueuedUpload[]) => void;
+}) => {
+  let items: QueuedUpload[] = [];
+  const controllers = new Map<string, AbortController>();
+  const limit = createLimiter(options.concurrency);
+
+  const update = (id: string, changes: Partial<QueuedUpload>) => {
+    items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+    options.onChange(items);
+  };
+
+  const isChecking = (id: string) => items.some(item => item.id === id && item.status === 'checking');
+
+  // Removes checked files that won't be uploaded
+  const discard = (ids: string[]) => {
+    const removed = new Set(ids);
+    items = items.filter(item => !(removed.has(item.id) && item.status === 'checking'));
+    options.onChange(items);
+  };
+
+  const run = (id: string) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+
+    limit(async () => {
+      const item = items.find(i => i.id === id);
+      if (!item || controller.signal.aborted) return;
+      update(id, { status: 'uploading', progress: 0, error: undefined });
+      try {
+        await options.upload(item, progress => update(id, { progress }), controller.signal);
+        update(id, { status: 'done', progress: 1 });
+      } catch (error: any) {
+        if (controller.signal.aborted) {
+          update(id, { status: 'cancelled' });
+        } else {
+          console.error(`Upload of ${item.file.name} failed:`, error);
+          update(id, { status: 'failed', error: error?.message || 'Upload failed' });
+        }
+      } finally {
+        controllers.delete(id);
+      }
+    });
+  };
+
+  return {
+    enqueue(files: { file: File; parentId: string | null; contentHash?: string }[]) {
+      const added: QueuedUpload[] = files.map(({ file, parentId, contentHash }) => ({
+        id: crypto.randomUUID(),
+        file,
+        parentId,
+        contentHash,
+        status: 'queued',
+        progress: 0
+      }));
+      items = [...items, ...added];
+      options.onChange(items);
+      added.forEach(item => run(item.id));
+    },
+
+    // Shows files in the tray while they're checked; nothing uploads until `start`
+    check(files: File[]): string[] {
+      const added: QueuedUpload[] = files.map(file => ({
+        id: crypto.randomUUID(),
+        file,
+        parentId: null,
+        status: 'checking',
+        progress: 0
+      }));
+      items = [...items, ...added];
+      options.onChange(items);
+      return added.map(item => item.id);
+    },
+
+    isChecking,
+    discard,
+
+    // Queues checked files; ones cancelled during the check are ignored
+    start(entries: { id: string; parentId: string | null; contentHash?: string }[]) {
+      const started = entries.filter(entry => isChecking(entry.id));
+      if (started.length === 0) return;
+      const changes = new Map(started.map(entry => [entry.id, entry]));
+      items = items.map(item => {
+        const entry = changes.get(item.id);
+        return entry ? { ...item, parentId: entry.parentId, contentHash: entry.contentHash, status: 'queued' } : item;
+      });
+      options.onChange(items);
+      started.forEach(entry => run(entry.id));
+    },
+
+    cancel(id: string) {
+      controllers.get(id)?.abort();
+      const item = items.find(i => i.id === id);
+      if (item?.status === 'checking') discard([id]);
+      else if (item?.status === 'queued') update(id, { status: 'cancelled' });
+    },
+
+    retry(id: string) {
+      const item = items.find(i => i.id === id);
+      if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+      update(id, { status: 'queued', progress: 0, error: undefined });
+      run(id);
+    },
+
+    clearFinished() {
+      items = items.filter(item => item.status === 'checking' || item.status === 'queued' || item.status === 'uploading');
+      options.onChange(items);
+    }
+  };
+};
+
+export type UploadQueue = ReturnType<typeof createUploadQueue>;
+
+// --- Collecting dropped files ---
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, prefix: string, out: PendingFile[]) => {
+  if (entry.isFile) {
+    out.push({ file: await entryToFile(entry as FileSystemFileEntry), path: `${prefix}${entry.name}` });
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until it yields an empty array
+    let batch = await readEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) await walkEntry(child, `${prefix}${entry.name}/`, out);
+      batch = await readEntries(reader);
+    }
+  }
+};
+
+// Expands dropped items (including whole directories) into a flat list of files
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<PendingFile[]> => {
+  // Entries must be grabbed synchronously, before the drop event finishes
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry?.() : null)
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+
+  const out: PendingFile[] = [];
+  for (const entry of entries) await walkEntry(entry, '', out);
+  return out;
+};
+
+// Files from an <input type="file"> (webkitRelativePath is set for directory pickers)
+export const collectInputFiles = (list: FileList): PendingFile[] =>
+  Array.from(list).map(file => ({ file, path: file.webkitRelativePath || file.name }));
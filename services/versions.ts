@@ -0,0 +1,104 @@
+import { DriveFile, FileType, FileVersion } from '../types';
+import { StorageBackend } from './storage';
+import { uploadChunks } from './chunkedUpload';
+import { isExtractable } from './extraction';
+import { isTranscribable } from './transcripts';
+import { isOcrCandidate } from './fileContent';
+
+export interface NewVersion {
+  blob: Blob;
+  type: FileType;
+  mimeType: string;
+  contentHash?: string;
+  perceptualHash?: string;
+}
+
+// When the current version was uploaded
+export const currentVersionDate = (file: DriveFile) => file.updatedAt ?? file.uploadDate;
+
+interface StoreOptions {
+  onProgress?: (progress: number) => void;
+  // Called whenever the stored version list changes, so local state can follow
+  onVersionsChange?: (versions: FileVersion[]) => void;
+}
+
+// Keeps the current bytes as a version, then writes the new ones in their place.
+// The version is recorded in the file's metadata before any chunk is removed, so
+// if the tab closes mid-upload the old contents can still be restored from the
+// history. A failed upload puts the old contents back and rethrows.
+// Resolves to the file's version list including the one just kept.
+export const storeNewVersion = async (
+  backend: StorageBackend,
+  file: DriveFile,
+  blob: Blob,
+  { onProgress, onVersionsChange }: StoreOptions = {}
+): Promise<FileVersion[]> => {
+  const current = await backend.get(file.id);
+  if (!current) throw new Error('The current version could not be read');
+
+  const previous: FileVersion = {
+    id: crypto.randomUUID(),
+    size: file.size,
+    mimeType: file.mimeType,
+    uploadedAt: currentVersionDate(file),
+    ...(file.contentHash ? { contentHash: file.contentHash } : {})
+  };
+  const earlier = file.versions || [];
+  const versions = [...earlier, previous];
+  await backend.putVersion(file.id, previous.id, current);
+  await backend.updateMetadata(file.id, { versions });
+  onVersionsChange?.(versions);
+
+  try {
+    await backend.deleteChunks(file.id);
+    await uploadChunks(backend, file.id, blob, { onProgress });
+  } catch (error) {
+    // The copy just recorded is the same as what is restored, so it's dropped
+    // again; if restoring fails it stays in the history
+    try {
+      const saved = await backend.getVersion(file.id, previous.id);
+      if (!saved) throw new Error('The saved copy could not be read');
+      await backend.deleteChunks(file.id);
+      await uploadChunks(backend, file.id, saved);
+      await backend.updateMetadata(file.id, { versions: earlier });
+      onVersionsChange?.(earlier);
+    } catch (rollbackError) {
+      console.error("Failed to put the previous version back", rollbackError);
+    }
+    throw error;
+  }
+  return versions;
+};
+
+// The file's record once `next` is its current version, with `versions` as
+// returned by storeNewVersion. Notes and user tags carry over; everything
+// derived from the old bytes is redone.
+export const applyNewVersion = (file: DriveFile, versions: FileVersion[], next: NewVersion, now = Date.now()): DriveFile => {
+  const {
+    extraction, transcript, content, embedding, albums, contentHash, perceptualHash, ...rest
+  } = file;
+  const updated: DriveFile = {
+    ...rest,
+    type: next.type,
+    mimeType: next.mimeType,
+    size: next.blob.size,
+    updatedAt: now,
+    versions,
+    // Earlier results stay visible until the new analysis replaces them
+    aiData: { summary: file.aiData?.summary || '', tags: file.aiData?.tags || [], status: 'pending' },
+    ...(albums ? { albums } : {}),
+    ...(next.contentHash ? { contentHash: next.contentHash } : {}),
+    ...(next.perceptualHash ? { perceptualHash: next.perceptualHash } : {})
+  };
+  if (isExtractable(updated)) updated.extraction = { status: 'pending' };
+  if (isTranscribable(updated)) updated.transcript = { status: 'pending', segments: [] };
+  if (isOcrCandidate(updated)) updated.content = { status: 'pending', text: '' };
+  return updated;
+};
+
+// "report.pdf" -> "report (2024-05-01).pdf", so downloaded versions don't overwrite each other
+export const versionFileName = (name: string, version: FileVersion) => {
+  const date = new Date(version.uploadedAt).toISOString().slice(0, 10);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? `${name.slice(0, dot)} (${date})${name.slice(dot)}` : `${name} (${date})`;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { cleanPath, createZipWriter, readZip, uniquePath } from './zip';
+
+const buildZip = async (entries: { path: string; data: string }[]) => {
+  const parts: BlobPart[] = [];
+  const writer = createZipWriter(part => void parts.push(part));
+  for (const entry of entries) await writer.add({ path: entry.path, data: new Blob([entry.data]), modified: Date.UTC(2024, 0, 2) });
+  await writer.finish();
+  return new Blob(parts, { type: 'application/zip' });
+};
+
+describe('cleanPath', () => {
+  it('uses forward slashes and drops parts that climb out of the archive', () => {
+    expect(cleanPath('a\\b/../c/./d.txt')).toBe('a/b/c/d.txt');
+    expect(cleanPath('../../')).toBe('untitled');
+  });
+});
+
+describe('uniquePath', () => {
+  it('numbers clashing names before the extension, ignoring case', () => {
+    const taken = new Set<string>();
+    expect(uniquePath('notes.txt', taken)).toBe('notes.txt');
+    expect(uniquePath('Notes.txt', taken)).toBe('Notes (2).txt');
+    expect(uniquePath('notes.txt', taken)).toBe('notes (3).txt');
+  });
+
+  it('numbers names without an extension at the end', () => {
+    const taken = new Set(['photos.2024/readme']);
+    expect(uniquePath('photos.2024/readme', taken)).toBe('photos.2024/readme (2)');
+  });
+});
+
+describe('zip writer and reader', () => {
+  it('reads back what was written', async () => {
+    const archive = await buildZip([
+      { path: 'a.txt', data: 'first' },
+      { path: 'folder/ünïcode.txt', data: 'second' },
+      { path: 'empty.txt', data: '' }
+    ]);
+    const entries = await readZip(archive);
+    expect([...entries.keys()]).toEqual(['a.txt', 'folder/ünïcode.txt', 'empty.txt']);
+    expect(await entries.get('a.txt')!.text()).toBe('first');
+    expect(await entries.get('folder/ünïcode.txt')!.text()).toBe('second');
+    expect(await entries.get('empty.txt')!.text()).toBe('');
+  });
+
+  it('keeps clashing entries apart', async () => {
+    const entries = await readZip(await buildZip([{ path: 'x.txt', data: '1' }, { path: 'x.txt', data: '2' }]));
+    expect(await entries.get('x.txt')!.text()).toBe('1');
+    expect(await entries.get('x (2).txt')!.text()).toBe('2');
+  });
+
+  it('rejects data that is not an archive', async () => {
+    await expect(readZip(new Blob(['not a zip']))).rejects.toThrow('This is not a ZIP archive');
+  });
+});
@@ -0,0 +1,201 @@
+// Minimal ZIP writer: entries are stored uncompressed (most uploads are already
+// compressed media) and written entry by entry, so file contents are never
+// copied into one big buffer.
+
+export interface ZipEntry {
+  path: string;
+  data: Blob;
+  modified?: number;
+}
+
+// Without ZIP64 extensions offsets and sizes are 32-bit, and the entry count 16-bit
+const MAX_ZIP_BYTES = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// --- CRC-32 ---
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return c;
+};
+
+// Reads the blob in chunks so large files don't have to fit in memory at once
+const crc32 = async (blob: Blob) => {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = updateCrc(crc, value);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// --- Headers ---
+// MS-DOS timestamps have two-second precision and start in 1980
+const dosDateTime = (timestamp: number) => {
+  const date = new Date(Math.max(timestamp, new Date(1980, 0, 1).getTime()));
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+const localHeader = (name: Uint8Array, crc: number, size: number, modified: number) => {
+  const { time, date } = dosDateTime(modified);
+  const header = new DataView(new ArrayBuffer(30));
+  header.setUint32(0, 0x04034b50, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, UTF8_FLAG, true);
+  header.setUint16(8, 0, true); // stored
+  header.setUint16(10, time, true);
+  header.setUint16(12, date, true);
+  header.setUint32(14, crc, true);
+  header.setUint32(18, size, true);
+  header.setUint32(22, size, true);
+  header.setUint16(26, name.length, true);
+  header.setUint16(28, 0, true);
+  return [new Uint8Array(header.buffer), name];
+};
+
+const centralHeader = (name: Uint8Array, crc: number, size: number, modified: number, offset: number) => {
+  const { time, date } = dosDateTime(modified);
+  const header = new DataView(new ArrayBuffer(46));
+  header.setUint32(0, 0x02014b50, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, 20, true);
+  header.setUint16(8, UTF8_FLAG, true);
+  header.setUint16(10, 0, true);
+  header.setUint16(12, time, true);
+  header.setUint16(14, date, true);
+  header.setUint32(16, crc, true);
+  header.setUint32(20, size, true);
+  header.setUint32(24, size, true);
+  header.setUint16(28, name.length, true);
+  header.setUint32(42, offset, true);
+  return [new Uint8Array(header.buffer), name];
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number) => {
+  const record = new DataView(new ArrayBuffer(22));
+  record.setUint32(0, 0x06054b50, true);
+  record.setUint16(8, count, true);
+  record.setUint16(10, count, true);
+  record.setUint32(12, size, true);
+  record.setUint32(16, offset, true);
+  return new Uint8Array(record.buffer);
+};
+
+// --- Paths ---
+// Archive paths use forward slashes and can't climb out of the archive
+export const cleanPath = (path: string) =>
+  path.split(/[\\/]+/).filter(part => part && part !== '.' && part !== '..').join('/') || 'untitled';
+
+// "notes.txt", "notes.txt" -> "notes.txt", "notes (2).txt"
+export const uniquePath = (path: string, taken: Set<string>) => {
+  let candidate = path;
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  const split = dot > slash + 1 ? dot : path.length;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${path.slice(0, split)} (${n})${path.slice(split)}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// --- Writer ---
+// Entries are written one at a time through `write`, so an archive can go
+// straight to disk without every file being held at once. Only the central
+// directory (a few dozen bytes per entry) is kept until `finish`.
+export const createZipWriter = (write: (part: BlobPart) => Promise<void> | void) => {
+  const encoder = new TextEncoder();
+  const taken = new Set<string>();
+  const directory: BlobPart[] = [];
+  let offset = 0;
+  let directorySize = 0;
+  let count = 0;
+
+  const add = async (entry: ZipEntry) => {
+    if (count >= MAX_ZIP_ENTRIES) throw new Error(`A ZIP archive can hold at most ${MAX_ZIP_ENTRIES} files`);
+    const name = encoder.encode(uniquePath(cleanPath(entry.path), taken));
+    const size = entry.data.size;
+    if (offset + 30 + name.length + size + directorySize + 46 + name.length > MAX_ZIP_BYTES) {
+      throw new Error('The files are too large for one ZIP archive (4 GB)');
+    }
+    const crc = await crc32(entry.data);
+    const modified = entry.modified ?? Date.now();
+
+    for (const part of localHeader(name, crc, size, modified)) await write(part);
+    await write(entry.data);
+    directory.push(...centralHeader(name, crc, size, modified, offset));
+    offset += 30 + name.length + size;
+    directorySize += 46 + name.length;
+    count++;
+  };
+
+  const finish = async () => {
+    for (const part of directory) await write(part);
+    await write(endOfCentralDirectory(count, directorySize, offset));
+  };
+
+  return { add, finish };
+};
+
+export type ZipWriter = ReturnType<typeof createZipWriter>;
+
+// --- Reader ---
+// Reads archives this writer produced (or any other with stored entries).
+// Entry contents are slices of the archive blob, so nothing is read until used.
+export const readZip = async (archive: Blob): Promise<Map<string, Blob>> => {
+  const bytes = async (start: number, length: number) => new DataView(await archive.slice(start, start + length).arrayBuffer());
+
+  // The end record sits in the last 22 bytes, followed by a comment of up to 64 KB
+  const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+  const tail = await bytes(tailStart, archive.size - tailStart);
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) { end = i; break; }
+  }
+  if (end === -1) throw new Error('This is not a ZIP archive');
+
+  const count = tail.getUint16(end + 10, true);
+  const directorySize = tail.getUint32(end + 12, true);
+  const directoryOffset = tail.getUint32(end + 16, true);
+  const directory = await bytes(directoryOffset, directorySize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Blob>();
+
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(position, true) !== 0x02014b50) throw new Error('The ZIP archive is damaged');
+    const method = directory.getUint16(position + 10, true);
+    const size = directory.getUint32(position + 20, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const offset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // folder entries
+    if (method !== 0) throw new Error(`"${name}" is compressed; only uncompressed archives can be read`);
+    const local = await bytes(offset, 30);
+    const dataStart = offset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.set(name, archive.slice(dataStart, dataStart + size));
+  }
+  return entries;
+};
@@ -1,9 +1,123 @@
 export type FileType = 'image' | 'text' | 'pdf' | 'video' | 'audio' | 'other';
 
+export type AnalysisStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+export type AnalysisValue = string | number | boolean | string[];
+
 export interface AIAnalysis {
   summary: string;
   tags: string[];
-  isAnalyzing: boolean;
+  status: AnalysisStatus;
+  error?: string;       // why the analysis failed or was skipped
+  model?: string;       // model that produced the result
+  profile?: string;     // signature of the analysis profile that was used
+  analyzedAt?: number;  // timestamp of the last finished attempt
+  extra?: Record<string, AnalysisValue>; // profile-specific fields, e.g. dominantColors
+}
+
+export type AnalysisFieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+export interface AnalysisField {
+  key: string;
+  type: AnalysisFieldType;
+  description: string; // tells the model what to put in the field
+}
+
+// How files of one type are analysed; editable by the user
+export interface AnalysisProfile {
+  prompt: string;
+  minTags: number;
+  maxTags: number;
+  model: string; // empty for the AI client's default model
+  fields: AnalysisField[];
+}
+
+export type DocumentKind = 'invoice' | 'receipt' | 'id-card' | 'business-card';
+
+export interface LineItem {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount?: number;
+}
+
+export interface ContactDetails {
+  name?: string;
+  company?: string;
+  jobTitle?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  website?: string;
+}
+
+export interface ExtractedData {
+  vendor?: string;
+  date?: string;           // YYYY-MM-DD; the expiry date for ID cards
+  documentNumber?: string; // invoice/receipt number, or ID number
+  currency?: string;       // ISO 4217 code
+  subtotal?: number;
+  tax?: number;
+  total?: number;
+  lineItems: LineItem[];
+  contact: ContactDetails;
+}
+
+// Structured data pulled from receipts, invoices and cards. 'skipped' means the
+// classifier didn't recognise the file as one of the supported document kinds.
+export interface DocumentExtraction {
+  status: AnalysisStatus;
+  kind?: DocumentKind;
+  data?: ExtractedData;
+  error?: string;
+  model?: string;
+  extractedAt?: number;
+  editedAt?: number; // set once the user corrects the data; re-runs then leave it alone
+}
+
+// The full text of a file: decoded directly from text files, read with OCR
+// from images and PDFs
+export interface FileContent {
+  status: AnalysisStatus;
+  text: string;
+  source?: 'decoded' | 'ocr';
+  truncated?: boolean; // only the start of very long texts is kept
+  error?: string;
+  model?: string;
+  extractedAt?: number;
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the media
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+// Timestamped speech from audio and video files. 'done' with no segments means
+// nothing was said.
+export interface Transcript {
+  status: AnalysisStatus;
+  segments: TranscriptSegment[];
+  language?: string; // BCP 47 tag, e.g. "en"
+  error?: string;
+  model?: string;
+  transcribedAt?: number;
+}
+
+export interface FileEmbedding {
+  model: string;
+  vector: number[];
+  sourceHash: string; // hash of the text that was embedded, to detect stale vectors
+}
+
+// An earlier upload of a file, kept when a new version replaced it
+export interface FileVersion {
+  id: string;
+  size: number;
+  mimeType: string;
+  uploadedAt: number;
+  contentHash?: string;
 }
 
 export interface DriveFile {
@@ -13,17 +127,64 @@ export interface DriveFile {
   mimeType: string;
   size: number;
   uploadDate: number; // timestamp
-  data: string; // base64
+  parentId?: string | null; // folder id, null/undefined for root
   notes: string;
+  tags?: string[];         // added or accepted by the user
+  rejectedTags?: string[]; // AI suggestions the user dismissed
   aiData?: AIAnalysis;
+  embedding?: FileEmbedding;
+  extraction?: DocumentExtraction;
+  transcript?: Transcript;
+  content?: FileContent;
+  albums?: AlbumMatches;
+  contentHash?: string;    // SHA-256 of the bytes, to spot identical uploads
+  perceptualHash?: string; // images only: 64-bit difference hash as hex, to spot look-alikes
+  deletedAt?: number;      // set while the file is in the trash
+  updatedAt?: number;      // when the current version was uploaded, if it isn't the first
+  versions?: FileVersion[]; // earlier versions, oldest first
 }
 
-export type SortOption = 'date-desc' | 'date-asc' | 'name-asc' | 'name-desc' | 'size-desc';
+export interface DriveFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+export type SortOption = 'date-desc' | 'date-asc' | 'name-asc' | 'name-desc' | 'size-desc' | 'relevance';
+
+export type SearchMode = 'keyword' | 'semantic';
 
 export interface FilterState {
   search: string;
+  mode: SearchMode;
   type: FileType | 'all';
   dateRange: 'all' | 'today' | 'week' | 'month';
+  album?: string; // auto-album id; like a search, this spans the whole drive
+}
+
+// --- Collections ---
+// A filter/search combination saved under a name
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filter: FilterState;
+  folderId: string | null; // the folder it was saved in; only used when there's no search
+  createdAt: number;
+}
+
+// An album Gemini fills by checking files against a natural-language rule
+export interface AutoAlbum {
+  id: string;
+  name: string;
+  rule: string;     // e.g. "screenshots of code"
+  updatedAt: number; // when the rule last changed; files checked before then are stale
+}
+
+// Which auto-albums a file belongs to, and when it was last checked against each
+export interface AlbumMatches {
+  ids: string[];
+  checkedAt: Record<string, number>;
 }
 
 export interface UserProfile {